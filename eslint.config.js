@@ -20,4 +20,7 @@ module.exports = tseslint.config({
   rules: {
     "react-hooks/exhaustive-deps": "error",
   },
+}, {
+  files: ["src/**/*.test.ts"],
+  extends: [foxglove.configs.jest],
 });
@@ -0,0 +1,11 @@
+// @ts-check
+
+/** @type {import("jest").Config} */
+module.exports = {
+  testMatch: ["<rootDir>/src/**/*.test.ts"],
+  transform: {
+    "^.+\\.(t|j)s$": "@swc/jest",
+  },
+  // The three.js loaders are only published as ES modules
+  transformIgnorePatterns: ["/node_modules/(?!three/examples/)"],
+};
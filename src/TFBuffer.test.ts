@@ -0,0 +1,163 @@
+import { TFBuffer } from "./TFBuffer";
+import { Header, Transform, TransformStamped } from "./types";
+
+// Rotation of `angle` radians about z
+function yaw(angle: number): Transform["rotation"] {
+  return { x: 0, y: 0, z: Math.sin(angle / 2), w: Math.cos(angle / 2) };
+}
+
+function transformStamped(
+  parent: string,
+  child: string,
+  stamp: number, // seconds
+  translation: [number, number, number],
+  angle = 0,
+): TransformStamped {
+  const [x, y, z] = translation;
+  return {
+    header: {
+      frame_id: parent,
+      stamp: { sec: Math.floor(stamp), nsec: Math.round((stamp % 1) * 1e9) },
+    },
+    child_frame_id: child,
+    transform: { translation: { x, y, z }, rotation: yaw(angle) },
+  };
+}
+
+describe("TFBuffer", () => {
+  it("interpolates translation and rotation between two samples", () => {
+    const buffer = new TFBuffer();
+    buffer.addTransform(transformStamped("world", "sensor", 1, [0, 0, 0]), {
+      isStatic: false,
+    });
+    buffer.addTransform(
+      transformStamped("world", "sensor", 2, [2, 0, 0], Math.PI / 2),
+      { isStatic: false },
+    );
+
+    const { transform } = buffer.lookupTransform("world", "sensor", 1.5e9);
+    expect(transform?.translation.x).toBeCloseTo(1);
+    expect(transform?.rotation.z).toBeCloseTo(Math.sin(Math.PI / 8));
+    expect(transform?.rotation.w).toBeCloseTo(Math.cos(Math.PI / 8));
+  });
+
+  it("chains edges and inverts them for lookups towards a child", () => {
+    const buffer = new TFBuffer();
+    buffer.addTransform(
+      transformStamped("world", "base", 0, [1, 0, 0], Math.PI / 2),
+      { isStatic: true },
+    );
+    buffer.addTransform(transformStamped("base", "sensor", 0, [1, 0, 0]), {
+      isStatic: true,
+    });
+
+    const sensorInWorld = buffer.lookupTransform("world", "sensor");
+    expect(sensorInWorld.transform?.translation.x).toBeCloseTo(1);
+    expect(sensorInWorld.transform?.translation.y).toBeCloseTo(1);
+
+    const worldInSensor = buffer.lookupTransform("sensor", "world");
+    expect(worldInSensor.transform?.translation.x).toBeCloseTo(-1);
+    expect(worldInSensor.transform?.translation.y).toBeCloseTo(1);
+  });
+
+  it("holds the last sample within the extrapolation tolerance", () => {
+    const buffer = new TFBuffer(10e9, 0.25e9);
+    buffer.addTransform(transformStamped("world", "sensor", 1, [1, 0, 0]), {
+      isStatic: false,
+    });
+    buffer.addTransform(transformStamped("world", "sensor", 2, [2, 0, 0]), {
+      isStatic: false,
+    });
+
+    const within = buffer.lookupTransform("world", "sensor", 2.2e9);
+    expect(within.transform?.translation.x).toBeCloseTo(2);
+
+    const beyond = buffer.lookupTransform("world", "sensor", 2.5e9);
+    expect(beyond.transform).toBeUndefined();
+    expect(beyond.error).toBeDefined();
+  });
+
+  it("fails lookups before the oldest sample", () => {
+    const buffer = new TFBuffer();
+    buffer.addTransform(transformStamped("world", "sensor", 1, [1, 0, 0]), {
+      isStatic: false,
+    });
+    buffer.addTransform(transformStamped("world", "sensor", 2, [2, 0, 0]), {
+      isStatic: false,
+    });
+
+    expect(
+      buffer.lookupTransform("world", "sensor", 0.5e9).error,
+    ).toBeDefined();
+  });
+
+  it("drops samples older than the cache duration", () => {
+    const buffer = new TFBuffer(1e9);
+    [0, 1, 2, 3].forEach((stamp) => {
+      buffer.addTransform(
+        transformStamped("world", "sensor", stamp, [stamp, 0, 0]),
+        { isStatic: false },
+      );
+    });
+
+    expect(buffer.lookupTransform("world", "sensor", 1e9).error).toBeDefined();
+    expect(
+      buffer.lookupTransform("world", "sensor", 2.5e9).transform?.translation.x,
+    ).toBeCloseTo(2.5);
+  });
+
+  it("uses static transforms at any time and keeps them across a seek", () => {
+    const buffer = new TFBuffer();
+    buffer.addTransform(transformStamped("world", "base", 5, [0, 0, 1]), {
+      isStatic: true,
+    });
+    buffer.addTransform(transformStamped("base", "sensor", 5, [1, 0, 0]), {
+      isStatic: false,
+    });
+
+    expect(
+      buffer.lookupTransform("world", "base", 100e9).transform?.translation.z,
+    ).toBeCloseTo(1);
+
+    buffer.clearDynamic();
+    expect(buffer.hasFrame("base")).toBe(true);
+    expect(buffer.lookupTransform("world", "sensor").error).toBeDefined();
+    expect(buffer.lookupTransform("world", "base").transform).toBeDefined();
+  });
+
+  it("reads ROS 2 stamps with a nanosec field", () => {
+    const buffer = new TFBuffer();
+    [1, 2].forEach((x) => {
+      buffer.addTransform(
+        {
+          header: {
+            frame_id: "world",
+            stamp: { sec: x, nanosec: 0 } as unknown as Header["stamp"],
+          },
+          child_frame_id: "sensor",
+          transform: {
+            translation: { x, y: 0, z: 0 },
+            rotation: { x: 0, y: 0, z: 0, w: 1 },
+          },
+        },
+        { isStatic: false },
+      );
+    });
+
+    expect(
+      buffer.lookupTransform("world", "sensor", 1.5e9).transform?.translation.x,
+    ).toBeCloseTo(1.5);
+  });
+
+  it("reports frames without a common ancestor", () => {
+    const buffer = new TFBuffer();
+    buffer.addTransform(transformStamped("world", "a", 0, [0, 0, 0]), {
+      isStatic: true,
+    });
+    buffer.addTransform(transformStamped("map", "b", 0, [0, 0, 0]), {
+      isStatic: true,
+    });
+
+    expect(buffer.lookupTransform("a", "b").error).toBeDefined();
+  });
+});
@@ -0,0 +1,300 @@
+import * as THREE from "three";
+
+import { fromRosStamp, stampToNanoseconds } from "./time";
+import { Transform, TransformStamped } from "./types";
+import {
+  matrixToTransform,
+  toThreeQuaternion,
+  transformToMatrix,
+} from "./wrenchMath";
+
+// One timestamped transform of a parent -> child edge
+type TransformSample = {
+  stamp: number; // nanoseconds
+  transform: Transform;
+};
+
+// History of a single edge in the TF tree, keyed by its child frame
+type TFEdge = {
+  parentFrameId: string;
+  isStatic: boolean;
+  samples: TransformSample[]; // sorted by stamp, oldest first
+};
+
+// Summary of a known frame, used for frame pickers and diagnostics
+export type TFFrameInfo = {
+  frameId: string;
+  parentFrameId?: string;
+  isStatic: boolean;
+  latestStamp?: number;
+  rate?: number; // Hz, from the stamps kept in the buffer
+};
+
+export type TransformLookupResult =
+  | { transform: Transform; error?: undefined }
+  | { transform?: undefined; error: string };
+
+const IDENTITY_TRANSFORM: Transform = {
+  translation: { x: 0, y: 0, z: 0 },
+  rotation: { x: 0, y: 0, z: 0, w: 1 },
+};
+
+// Linear interpolation of translation and slerp of rotation between two samples
+function interpolateTransform(
+  a: TransformSample,
+  b: TransformSample,
+  time: number,
+): Transform {
+  const ratio =
+    b.stamp === a.stamp ? 0 : (time - a.stamp) / (b.stamp - a.stamp);
+  const ta = a.transform.translation;
+  const tb = b.transform.translation;
+  const rotation = toThreeQuaternion(a.transform.rotation).slerp(
+    toThreeQuaternion(b.transform.rotation),
+    ratio,
+  );
+  return {
+    translation: {
+      x: ta.x + (tb.x - ta.x) * ratio,
+      y: ta.y + (tb.y - ta.y) * ratio,
+      z: ta.z + (tb.z - ta.z) * ratio,
+    },
+    rotation: { x: rotation.x, y: rotation.y, z: rotation.z, w: rotation.w },
+  };
+}
+
+/**
+ * Time-windowed TF buffer. Dynamic transforms keep a history of `cacheDuration` nanoseconds per
+ * edge and are interpolated at lookup time. Static transforms are valid at any time.
+ *
+ * Sensors usually publish faster than TF, so the newest stamp of a sensor is often a little ahead
+ * of the latest transform. Lookups up to `extrapolationTolerance` nanoseconds past the last sample
+ * of an edge return that sample instead of failing.
+ */
+export class TFBuffer {
+  #edges = new Map<string, TFEdge>();
+  cacheDuration: number;
+  extrapolationTolerance: number;
+
+  constructor(cacheDuration = 10e9, extrapolationTolerance = 0.25e9) {
+    this.cacheDuration = cacheDuration;
+    this.extrapolationTolerance = extrapolationTolerance;
+  }
+
+  clear(): void {
+    this.#edges.clear();
+  }
+
+  // Drop the dynamic transform history; static transforms are not published again after a seek
+  clearDynamic(): void {
+    this.#edges.forEach((edge, childFrameId) => {
+      if (!edge.isStatic) {
+        this.#edges.delete(childFrameId);
+      }
+    });
+  }
+
+  addTransform(
+    transformStamped: TransformStamped,
+    options: { isStatic: boolean },
+  ): void {
+    const { isStatic } = options;
+    const childFrameId = transformStamped.child_frame_id;
+    const parentFrameId = transformStamped.header.frame_id;
+    // ROS 2 stamps name the nanosecond field "nanosec"; every caller feeds decoded messages here
+    const sample: TransformSample = {
+      stamp: stampToNanoseconds(
+        fromRosStamp(transformStamped.header.stamp, { sec: 0, nsec: 0 }),
+      ),
+      transform: transformStamped.transform,
+    };
+
+    const edge = this.#edges.get(childFrameId);
+    // A static transform or a re-parented frame replaces the whole history
+    if (
+      isStatic ||
+      !edge ||
+      edge.parentFrameId !== parentFrameId ||
+      edge.isStatic
+    ) {
+      this.#edges.set(childFrameId, {
+        parentFrameId,
+        isStatic,
+        samples: [sample],
+      });
+      return;
+    }
+
+    const { samples } = edge;
+    let index = samples.length;
+    while (index > 0 && samples[index - 1]!.stamp > sample.stamp) {
+      index--;
+    }
+    if (index > 0 && samples[index - 1]!.stamp === sample.stamp) {
+      samples[index - 1] = sample;
+    } else {
+      samples.splice(index, 0, sample);
+    }
+
+    // Drop samples that fell out of the cache window
+    const oldestAllowed =
+      samples[samples.length - 1]!.stamp - this.cacheDuration;
+    let expired = 0;
+    while (
+      expired < samples.length - 1 &&
+      samples[expired]!.stamp < oldestAllowed
+    ) {
+      expired++;
+    }
+    if (expired > 0) {
+      samples.splice(0, expired);
+    }
+  }
+
+  hasFrame(frameId: string): boolean {
+    if (this.#edges.has(frameId)) {
+      return true;
+    }
+    for (const edge of this.#edges.values()) {
+      if (edge.parentFrameId === frameId) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  frames(): TFFrameInfo[] {
+    const frames = new Map<string, TFFrameInfo>();
+    this.#edges.forEach((edge, frameId) => {
+      const { samples } = edge;
+      const span =
+        samples.length > 1
+          ? samples[samples.length - 1]!.stamp - samples[0]!.stamp
+          : 0;
+      frames.set(frameId, {
+        frameId,
+        parentFrameId: edge.parentFrameId,
+        isStatic: edge.isStatic,
+        latestStamp: samples[samples.length - 1]?.stamp,
+        rate: span > 0 ? ((samples.length - 1) * 1e9) / span : undefined,
+      });
+      if (
+        !frames.has(edge.parentFrameId) &&
+        !this.#edges.has(edge.parentFrameId)
+      ) {
+        frames.set(edge.parentFrameId, {
+          frameId: edge.parentFrameId,
+          isStatic: false,
+        });
+      }
+    });
+    return Array.from(frames.values());
+  }
+
+  /**
+   * Pose of `sourceFrame` expressed in `targetFrame` at `time` (nanoseconds). When `time` is
+   * undefined or zero the latest available transform of every edge is used.
+   */
+  lookupTransform(
+    targetFrame: string,
+    sourceFrame: string,
+    time?: number,
+  ): TransformLookupResult {
+    if (targetFrame === sourceFrame) {
+      return { transform: IDENTITY_TRANSFORM };
+    }
+
+    const targetChain = this.#chainToRoot(targetFrame);
+    const sourceChain = this.#chainToRoot(sourceFrame);
+    const commonFrame = targetChain.find((frameId) =>
+      sourceChain.includes(frameId),
+    );
+    if (commonFrame == undefined) {
+      return { error: `No transform from ${sourceFrame} to ${targetFrame}` };
+    }
+
+    // Pose of each frame relative to the common ancestor
+    const targetResult = this.#poseInAncestor(targetChain, commonFrame, time);
+    if (targetResult.error != undefined) {
+      return { error: targetResult.error };
+    }
+    const sourceResult = this.#poseInAncestor(sourceChain, commonFrame, time);
+    if (sourceResult.error != undefined) {
+      return { error: sourceResult.error };
+    }
+
+    const result = targetResult.matrix.invert().multiply(sourceResult.matrix);
+    return { transform: matrixToTransform(result) };
+  }
+
+  // Frames from `frameId` up to the root of its tree, starting with `frameId` itself
+  #chainToRoot(frameId: string): string[] {
+    const chain = [frameId];
+    let edge = this.#edges.get(frameId);
+    while (edge && !chain.includes(edge.parentFrameId)) {
+      chain.push(edge.parentFrameId);
+      edge = this.#edges.get(edge.parentFrameId);
+    }
+    return chain;
+  }
+
+  #poseInAncestor(
+    chain: string[],
+    ancestorFrame: string,
+    time: number | undefined,
+  ):
+    | { matrix: THREE.Matrix4; error?: undefined }
+    | { matrix?: undefined; error: string } {
+    const matrix = new THREE.Matrix4().identity();
+    for (const frameId of chain) {
+      if (frameId === ancestorFrame) {
+        break;
+      }
+      const edge = this.#edges.get(frameId)!;
+      const sample = this.#sampleEdge(frameId, edge, time);
+      if (sample.error != undefined) {
+        return { error: sample.error };
+      }
+      matrix.premultiply(transformToMatrix(sample.transform));
+    }
+    return { matrix };
+  }
+
+  #sampleEdge(
+    frameId: string,
+    edge: TFEdge,
+    time: number | undefined,
+  ): TransformLookupResult {
+    const { samples } = edge;
+    const first = samples[0]!;
+    const last = samples[samples.length - 1]!;
+    if (edge.isStatic || time == undefined || time === 0) {
+      return { transform: last.transform };
+    }
+
+    const edgeName = `${edge.parentFrameId} -> ${frameId}`;
+    if (time > last.stamp) {
+      if (time - last.stamp <= this.extrapolationTolerance) {
+        return { transform: last.transform };
+      }
+      const ahead = ((time - last.stamp) / 1e9).toFixed(3);
+      return {
+        error: `Lookup would require extrapolation ${ahead}s into the future on ${edgeName}`,
+      };
+    }
+    if (time < first.stamp) {
+      const behind = ((first.stamp - time) / 1e9).toFixed(3);
+      return {
+        error: `Requested time is ${behind}s older than the TF buffer on ${edgeName}`,
+      };
+    }
+
+    let index = samples.length - 1;
+    while (index > 0 && samples[index - 1]!.stamp > time) {
+      index--;
+    }
+    const after = samples[index]!;
+    const before = samples[Math.max(0, index - 1)]!;
+    return { transform: interpolateTransform(before, after, time) };
+  }
+}
@@ -0,0 +1,186 @@
+import { ReactElement, useEffect, useRef, useState } from "react";
+
+import { Wrench } from "./types";
+import { WRENCH_CHANNELS, WrenchChannel } from "./wrenchMath";
+
+// One wrench sample of the rolling history, time in seconds
+export type WrenchSample = {
+  time: number;
+  wrench: Wrench;
+};
+
+// Line style of every channel; torque components are dashed
+const SERIES_STYLES: Record<WrenchChannel, { color: string; dashed: boolean }> =
+  {
+    fx: { color: "#ff5050", dashed: false },
+    fy: { color: "#50ff50", dashed: false },
+    fz: { color: "#5080ff", dashed: false },
+    tx: { color: "#ff5050", dashed: true },
+    ty: { color: "#50ff50", dashed: true },
+    tz: { color: "#5080ff", dashed: true },
+    forceNorm: { color: "#ffffff", dashed: false },
+    torqueNorm: { color: "#ffff00", dashed: true },
+  };
+
+type WrenchPlotProps = {
+  samples: readonly WrenchSample[];
+  timeWindow: number; // seconds
+  enabledSeries: Record<WrenchChannel, boolean>;
+  cursorTime?: number; // playback time in seconds
+  height: number;
+};
+
+// Strip chart of the wrench components over the last `timeWindow` seconds
+export function WrenchPlot({
+  samples,
+  timeWindow,
+  enabledSeries,
+  cursorTime,
+  height,
+}: WrenchPlotProps): ReactElement {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+
+  // Track the width of the container
+  useEffect(() => {
+    const parent = canvasRef.current?.parentElement;
+    if (!parent) {
+      return;
+    }
+    const resizeObserver = new ResizeObserver(() => {
+      setWidth(parent.clientWidth);
+    });
+    resizeObserver.observe(parent);
+    setWidth(parent.clientWidth);
+    return () => {
+      resizeObserver.disconnect();
+    };
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || width === 0) {
+      return;
+    }
+
+    const pixelRatio = window.devicePixelRatio;
+    canvas.width = width * pixelRatio;
+    canvas.height = height * pixelRatio;
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = "#121217";
+    ctx.fillRect(0, 0, width, height);
+
+    const margin = { left: 48, right: 8, top: 18, bottom: 16 };
+    const plotWidth = width - margin.left - margin.right;
+    const plotHeight = height - margin.top - margin.bottom;
+    if (plotWidth <= 0 || plotHeight <= 0) {
+      return;
+    }
+
+    const lastSample = samples[samples.length - 1];
+    const endTime = Math.max(lastSample?.time ?? 0, cursorTime ?? 0);
+    const startTime = endTime - timeWindow;
+    const visibleSamples = samples.filter((sample) => sample.time >= startTime);
+    const series = WRENCH_CHANNELS.filter((s) => enabledSeries[s.key]).map(
+      (s) => ({
+        ...s,
+        ...SERIES_STYLES[s.key],
+      }),
+    );
+
+    // Auto range over the visible samples, always including zero
+    let minValue = 0;
+    let maxValue = 0;
+    visibleSamples.forEach((sample) => {
+      series.forEach((s) => {
+        const value = s.value(sample.wrench);
+        minValue = Math.min(minValue, value);
+        maxValue = Math.max(maxValue, value);
+      });
+    });
+    if (maxValue - minValue < 1e-6) {
+      minValue -= 1;
+      maxValue += 1;
+    }
+
+    const toX = (time: number) =>
+      margin.left + ((time - startTime) / timeWindow) * plotWidth;
+    const toY = (value: number) =>
+      margin.top +
+      (1 - (value - minValue) / (maxValue - minValue)) * plotHeight;
+
+    // Axes, zero line and labels
+    ctx.font = "10px sans-serif";
+    ctx.strokeStyle = "#444";
+    ctx.lineWidth = 1;
+    ctx.setLineDash([]);
+    ctx.strokeRect(margin.left, margin.top, plotWidth, plotHeight);
+    ctx.beginPath();
+    ctx.moveTo(margin.left, toY(0));
+    ctx.lineTo(margin.left + plotWidth, toY(0));
+    ctx.stroke();
+
+    ctx.fillStyle = "#aaa";
+    ctx.textAlign = "right";
+    ctx.textBaseline = "middle";
+    ctx.fillText(maxValue.toFixed(2), margin.left - 4, margin.top);
+    ctx.fillText("0", margin.left - 4, toY(0));
+    ctx.fillText(minValue.toFixed(2), margin.left - 4, margin.top + plotHeight);
+    ctx.textBaseline = "top";
+    ctx.fillText("0 s", margin.left + plotWidth, margin.top + plotHeight + 2);
+    ctx.textAlign = "left";
+    ctx.fillText(`-${timeWindow} s`, margin.left, margin.top + plotHeight + 2);
+
+    // Series lines
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(margin.left, margin.top, plotWidth, plotHeight);
+    ctx.clip();
+    series.forEach((s) => {
+      ctx.strokeStyle = s.color;
+      ctx.setLineDash(s.dashed ? [4, 3] : []);
+      ctx.beginPath();
+      visibleSamples.forEach((sample, i) => {
+        const x = toX(sample.time);
+        const y = toY(s.value(sample.wrench));
+        if (i === 0) {
+          ctx.moveTo(x, y);
+        } else {
+          ctx.lineTo(x, y);
+        }
+      });
+      ctx.stroke();
+    });
+    ctx.restore();
+
+    // Playback cursor
+    if (cursorTime != undefined && cursorTime >= startTime) {
+      ctx.strokeStyle = "#ffffff";
+      ctx.setLineDash([2, 2]);
+      ctx.beginPath();
+      ctx.moveTo(toX(cursorTime), margin.top);
+      ctx.lineTo(toX(cursorTime), margin.top + plotHeight);
+      ctx.stroke();
+    }
+
+    // Legend
+    ctx.setLineDash([]);
+    ctx.textAlign = "left";
+    ctx.textBaseline = "top";
+    let legendX = margin.left;
+    series.forEach((s) => {
+      ctx.fillStyle = s.color;
+      ctx.fillText(s.label, legendX, 3);
+      legendX += ctx.measureText(s.label).width + 10;
+    });
+  }, [samples, timeWindow, enabledSeries, cursorTime, width, height]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      style={{ width: "100%", height, display: "block" }}
+    />
+  );
+}
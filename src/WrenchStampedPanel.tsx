@@ -1,4 +1,12 @@
-import { PanelExtensionContext, Topic, MessageEvent, SettingsTreeAction } from "@foxglove/extension";
+import {
+  PanelExtensionContext,
+  Topic,
+  MessageEvent,
+  SettingsTreeAction,
+  SettingsTreeChildren,
+  Subscription,
+  Time,
+} from "@foxglove/extension";
 import { useLayoutEffect, useEffect, useState, useMemo, useCallback, useRef } from "react";
 import { createRoot } from "react-dom/client";
 import { produce } from "immer";
@@ -6,132 +14,650 @@ import { set } from "lodash";
 import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls";
 
-THREE.Object3D.DEFAULT_UP.set(0, 0, 1);
-
-// Header definition for stamped messages
-interface Header {
-  frame_id: string;
-  stamp: { sec: number; nsec: number };
-}
-
-// Vector3 type definition
-interface Vector3 {
-  x: number;
-  y: number;
-  z: number;
-}
-
-// WrenchStamped message type definition
-interface WrenchStampedMessage {
-  header: Header;
-  wrench: {
-    force: Vector3;
-    torque: Vector3;
-  };
-}
-
-// TF message type definition
-interface Transform {
-  translation: Vector3;
-  rotation: {
-    x: number;
-    y: number;
-    z: number;
-    w: number;
-  };
-}
-
-interface TransformStamped {
-  header: Header;
-  child_frame_id: string;
-  transform: Transform;
-}
+import { TFBuffer, TransformLookupResult } from "./TFBuffer";
+import { WrenchPlot, WrenchSample } from "./WrenchPlot";
+import {
+  ArrowScalingMode,
+  MAGNITUDE_GRADIENT,
+  arrowLength,
+  magnitudeColor,
+} from "./arrowScaling";
+import { WrenchCommandGizmo } from "./commandGizmo";
+import {
+  ContactConfig,
+  ContactEstimate,
+  createDefaultContact,
+  estimateContact,
+  transformContactEstimate,
+} from "./contact";
+import { downloadTextFile, exportWrenchCsv } from "./csvExport";
+import { FilterConfig, WrenchFilter, createWrenchFilter } from "./filters";
+import {
+  TrailSample,
+  createDirectionHeatMap,
+  createTrail,
+  updateDirectionHeatMap,
+  updateTrail,
+} from "./forceTrail";
+import {
+  LimitLevel,
+  LimitResult,
+  LimitsConfig,
+  createDefaultLimits,
+  evaluateLimits,
+  worstLevel,
+} from "./limits";
+import { WrenchIntegrator } from "./mechanics";
+import { RobotModel, createRobotModel } from "./robotModel";
+import { WindowMaximum, WrenchStatistics } from "./statistics";
+import { TFFramesDisplay } from "./tfFramesDisplay";
+import {
+  formatStamp,
+  fromNanoseconds,
+  isSameTime,
+  stampToNanoseconds,
+  toRosStamp,
+  toSeconds,
+} from "./time";
+import {
+  Header,
+  StringMessage,
+  TFMessage,
+  Transform,
+  Vector3,
+  Wrench,
+} from "./types";
+import {
+  FORCE_UNITS,
+  ForceUnit,
+  TORQUE_UNITS,
+  TorqueUnit,
+  convertVector,
+} from "./units";
+import { UrdfRobot, parseUrdf } from "./urdf";
+import {
+  WRENCH_CHANNELS,
+  WrenchChannel,
+  averageWrench,
+  payloadGravityWrench,
+  subtractWrench,
+  toThreeVector,
+  transformToMatrix,
+  transformWrench,
+} from "./wrenchMath";
+import {
+  ContactPoint,
+  SourceWrenchMessage,
+  toSourceWrenchMessage,
+  transformContactPoints,
+  wrenchSourceKind,
+} from "./wrenchSources";
 
-interface TFMessage {
-  transforms: TransformStamped[];
-}
+THREE.Object3D.DEFAULT_UP.set(0, 0, 1);
 
 // Message event types
-type WrenchStampedMessageEvent = MessageEvent<WrenchStampedMessage>;
+type SourceWrenchMessageEvent = MessageEvent<SourceWrenchMessage>;
 type TFMessageEvent = MessageEvent<TFMessage>;
+type StringMessageEvent = MessageEvent<StringMessage>;
 
-// TF Tree structure for frame transformation
-interface TFTreeNode {
-  frame_id: string;
-  parent_frame_id?: string;
-  transform: Transform;
-  timestamp: number; // For freshness check
-}
+// Per-source configuration for one wrench topic drawn in the shared scene
+type WrenchSourceConfig = {
+  label: string;
+  topic?: string;
+  visible: boolean;
+  showForce: boolean;
+  showTorque: boolean;
+  forceScaleFactor: number;
+  torqueScaleFactor: number;
+  forceColor: string;
+  torqueColor: string;
+  displayFrame?: string; // frame the wrench is drawn and printed in, sensor frame if unset
+  unstampedFrame?: string; // frame of messages that carry none, fixed frame if unset
+  tareSamples: number; // number of recent samples averaged by the tare action
+  payload: {
+    compensate: boolean;
+    mass: number; // kg
+    centerOfMass: [number, number, number]; // meters, in the sensor frame
+  };
+  contact: ContactConfig;
+  showContacts: boolean; // draw the contacts reported by contact sensor topics
+  reference: {
+    topic?: string; // commanded wrench compared against this source
+    transformToCommonFrame: boolean; // express the reference in this source's display frame first
+    showError: boolean;
+  };
+};
 
 // Panel state definition
 type PanelState = {
   data: {
     label: string;
-    topic?: string;
     visible: boolean;
     fixedFrame: string;
+    tfBufferDuration: number; // seconds of TF history kept per edge
+    tfTolerance: number; // seconds a lookup may be ahead of the latest transform
+    preload: boolean; // load every wrench message of the data source to fill the history after a seek
+    gravity: [number, number, number]; // m/s^2, in the fixed frame
   };
+  sources: WrenchSourceConfig[];
+  biases: Record<string, Wrench>; // sensor-frame offsets keyed by wrench topic
   display: {
-    showForce: boolean;
-    showTorque: boolean;
-    forceScaleFactor: number;
-    torqueScaleFactor: number;
-    forceColor: string;
-    torqueColor: string;
     gridVisible: boolean;
     axesVisible: boolean;
     gridColor: string;
+    limits: LimitsConfig;
+    scalingMode: ArrowScalingMode;
+    forceUnit: ForceUnit;
+    torqueUnit: TorqueUnit;
+  };
+  filter: FilterConfig & {
+    showRaw: boolean; // draw unfiltered arrows next to the filtered ones
+  };
+  plot: {
+    visible: boolean;
+    sourceIndex: number;
+    timeWindow: number; // seconds
+    height: number; // pixels
+    series: Record<WrenchChannel, boolean>;
+  };
+  command: {
+    enabled: boolean;
+    topic: string;
+    sourceIndex: number; // sensor group the gizmo is attached to; its frame is the command frame
+    publishMode: "once" | "rate"; // publish on release and actions, or continuously
+    rate: number; // Hz
+    forceClamp: [number, number, number]; // N, per axis
+    torqueClamp: [number, number, number]; // N·m, per axis
+    torqueGain: number; // N·m per radian dragged around a torque ring
+  };
+  statistics: {
+    visible: boolean;
+    sourceIndex: number;
+    // Sliding window, or every message played since the last reset or seek. Preloaded data is not
+    // included; the stored value stays "all" so saved layouts keep their range.
+    mode: "window" | "all";
+    window: number; // seconds
+  };
+  diagnostics: {
+    staleTimeout: number; // seconds without a message before a source is drawn faded
+    showTfTree: boolean;
+  };
+  export: {
+    sourceIndex: number;
+    start?: number; // seconds from the start of playback, start of playback if unset
+    end?: number; // seconds from the start of playback, end of playback if unset
+  };
+  camera: {
+    mode: "orbit" | "follow"; // orbit around the fixed frame origin or follow a sensor
+    followSourceIndex: number;
+    position: [number, number, number]; // meters, relative to the orbit or follow anchor
+    target: [number, number, number];
+  };
+  robot: {
+    visible: boolean;
+    source: "topic" | "parameter" | "string"; // where the URDF is read from
+    topic: string;
+    parameter: string;
+    urdf: string; // pasted or loaded from a file
+    packageUrl: string; // base URL that package:// mesh paths are served from
+    opacity: number;
   };
+  tf: {
+    visible: boolean;
+    frames: Record<string, boolean>; // visibility of each frame, true if shown; frames without an entry are shown
+    scale: number; // meters, axis length
+    showLabels: boolean;
+    showLinks: boolean; // lines from each frame to its parent
+  };
+  trail: {
+    visible: boolean;
+    duration: number; // seconds of past force arrow tips drawn
+    fade: boolean; // older tips fade out over the duration
+    heatMap: boolean; // sphere colored by how often the force pointed each way
+    heatMapRadius: number; // meters
+    minForce: number; // N, weaker forces are left out of the heat map
+  };
+};
+
+// Layouts saved before multi-source support kept one topic and its styling in data/display
+type LegacyPanelState = {
+  data?: { topic?: string };
+  display?: Partial<
+    Pick<
+      WrenchSourceConfig,
+      | "showForce"
+      | "showTorque"
+      | "forceScaleFactor"
+      | "torqueScaleFactor"
+      | "forceColor"
+      | "torqueColor"
+    >
+  >;
+};
+
+// Color of the unfiltered comparison arrows
+const RAW_ARROW_COLOR = 0x888888;
+
+const ZERO_WRENCH: Wrench = {
+  force: { x: 0, y: 0, z: 0 },
+  torque: { x: 0, y: 0, z: 0 },
+};
+
+// Meaning of the per-source scale factors in each arrow scaling mode
+const SCALE_FACTOR_HELP: Record<ArrowScalingMode, string> = {
+  linear: "Meters of arrow per N or N·m",
+  log: "Meters of arrow per decade of magnitude",
+  normalized: "Length of every arrow in meters; color shows the magnitude",
+  autoFit: "Length in meters of the largest recent magnitude",
+};
+
+// Initial camera position, looking at the anchor from above the first quadrant
+const DEFAULT_CAMERA_POSITION: [number, number, number] = [2, 2, 2];
+
+// Offset direction of each camera preset from its target
+const CAMERA_PRESETS: Record<string, [number, number, number]> = {
+  "camera-top": [-1e-3, 0, 1], // slightly tilted, orbit controls cannot look straight down
+  "camera-front": [1, 0, 0],
+  "camera-side": [0, 1, 0],
+};
+
+// Opacity of the ghost arrows drawn for the reference wrench
+const REFERENCE_ARROW_OPACITY = 0.35;
+
+// Color of the tracking error arrows
+const ERROR_ARROW_COLOR = 0xff8800;
+
+// Length drawn on each side of the line of action anchor, meters
+const LINE_OF_ACTION_HALF_LENGTH = 0.5;
+
+// Length of the surface normal drawn at each reported contact, meters
+const CONTACT_NORMAL_LENGTH = 0.05;
+
+// Distance in meters within which a ray picks an arrow shaft
+const PICK_LINE_THRESHOLD = 0.02;
+
+// Pointer movement in pixels above which a click is treated as the end of a camera drag
+const CLICK_TOLERANCE = 4;
+
+// Opacity of the arrows of a source that stopped publishing
+const STALE_ARROW_OPACITY = 0.25;
+
+// Seconds of history the message rate is measured over
+const RATE_WINDOW = 2;
+
+// Colors assigned to newly added sources, cycled by index
+const SOURCE_COLORS: readonly { force: string; torque: string }[] = [
+  { force: "#ff0000", torque: "#ffff00" },
+  { force: "#00c8ff", torque: "#ff00ff" },
+  { force: "#00ff64", torque: "#ff9600" },
+  { force: "#ffffff", torque: "#9664ff" },
+];
+
+function createDefaultSource(
+  index: number,
+  topic?: string,
+): WrenchSourceConfig {
+  const colors = SOURCE_COLORS[index % SOURCE_COLORS.length]!;
+  return {
+    label: `Source ${index + 1}`,
+    topic,
+    visible: true,
+    showForce: true,
+    showTorque: true,
+    forceScaleFactor: 1.0,
+    torqueScaleFactor: 1.0,
+    forceColor: colors.force,
+    torqueColor: colors.torque,
+    tareSamples: 1,
+    payload: { compensate: false, mass: 0, centerOfMass: [0, 0, 0] },
+    contact: createDefaultContact(),
+    showContacts: true,
+    reference: { transformToCommonFrame: true, showError: true },
+  };
+}
+
+// A channel crossing into the warning or critical range
+type LimitViolation = {
+  time: Time;
+  sourceLabel: string;
+  channelLabel: string;
+  value: number;
+  level: LimitLevel;
+};
+
+// Number of violations kept in the list
+const MAX_VIOLATIONS = 200;
+
+// Raw wrench history sample with the output of the filter stage, if any
+type HistorySample = WrenchSample & { filtered?: Wrench };
+
+// Lookup that falls back to the last valid transform between the same two frames; `error` is set
+// whenever the lookup at the requested time failed, with or without a held transform
+type HeldLookupResult = { transform?: Transform; error?: string };
+
+// Frames one source's wrench is drawn in, resolved at a message stamp
+type SourceFrames = {
+  frameId: string; // display frame, or the sensor frame until the wrench can be expressed there
+  sensorInDisplay?: Transform;
+  gravityWrench?: Wrench; // predicted payload weight in the sensor frame
+  framePose: HeldLookupResult; // pose of frameId in the fixed frame
+  errors: string[];
+};
+
+// Wrench of one source as drawn in the scene
+type DisplayedWrench = {
+  frameId: string;
+  wrench: Wrench;
+  rawWrench?: Wrench; // unfiltered wrench, set while a filter is active
+  contact?: ContactEstimate; // line of action and contact point in frameId
+  contacts?: ContactPoint[]; // contacts reported by a contact sensor, in frameId
+  reference?: Wrench; // reference wrench in frameId, or as received if not transformed
+  error?: Wrench; // measured minus reference
+  stamp: Time; // header stamp of the message
+  framePose: HeldLookupResult; // pose of frameId in the fixed frame, nothing is drawn without it
+  errors: string[]; // processing steps that failed, including the frame pose lookup
+};
+
+// What the 3D view shows while paused, captured when the view was frozen
+type PausedView = {
+  wrenches: (DisplayedWrench | undefined)[];
+  limitResults: (LimitResult | undefined)[];
+  maxima: { force: number; torque: number }[];
+};
+
+// Arrow under the pointer, or pinned by a click; x and y are pixels in the 3D view
+type ArrowPick = {
+  sourceIndex: number;
+  kind: "force" | "torque";
+  x: number;
+  y: number;
+  pinned: boolean;
+};
+
+// Marker, surface normal and force of one reported contact
+type ContactPointVisual = {
+  group: THREE.Group;
+  marker: THREE.Mesh;
+  normalArrow: THREE.ArrowHelper;
+  forceArrow: THREE.ArrowHelper;
+};
+
+// Three.js objects owned by one wrench source
+type SensorVisual = {
+  group: THREE.Group;
+  forceArrow: THREE.ArrowHelper;
+  torqueArrow: THREE.ArrowHelper;
+  torqueRotationIndicator: THREE.Group;
+  rawForceArrow: THREE.ArrowHelper;
+  rawTorqueArrow: THREE.ArrowHelper;
+  lineOfAction: THREE.Line;
+  contactMarker: THREE.Mesh;
+  contactPoints: ContactPointVisual[];
+  referenceForceArrow: THREE.ArrowHelper;
+  referenceTorqueArrow: THREE.ArrowHelper;
+  errorForceArrow: THREE.ArrowHelper;
+  errorTorqueArrow: THREE.ArrowHelper;
+  trail: THREE.Line;
+  heatMap: THREE.Mesh;
 };
 
 function WrenchPanel({ context }: { context: PanelExtensionContext }): JSX.Element {
   const [topics, setTopics] = useState<readonly Topic[] | undefined>();
-  const [message, setMessage] = useState<WrenchStampedMessageEvent>();
-  const [sensorFrameId, setSensorFrameId] = useState<string>("");
-  const [tfTree, setTfTree] = useState<Map<string, TFTreeNode>>(new Map());
+  const [messages, setMessages] = useState<
+    Map<string, SourceWrenchMessageEvent>
+  >(new Map());
+  const [currentTime, setCurrentTime] = useState<number | undefined>();
+  const [playbackRange, setPlaybackRange] = useState<{
+    start?: Time;
+    end?: Time;
+  }>({});
+  const [exportStatus, setExportStatus] = useState<string | undefined>();
+  const [commandWrench, setCommandWrench] = useState<Wrench>(ZERO_WRENCH);
+  const [pausedView, setPausedView] = useState<PausedView | undefined>();
+  const [arrowPick, setArrowPick] = useState<ArrowPick | undefined>();
+  const pointerDownRef = useRef<{ x: number; y: number } | undefined>();
+  const [commandGizmo, setCommandGizmo] = useState<
+    WrenchCommandGizmo | undefined
+  >();
+  const historyRef = useRef(new Map<string, HistorySample[]>());
+  // Preloaded messages each source topic was last filled from
+  const preloadedFramesRef = useRef(new Map<string, readonly MessageEvent[]>());
+  const filtersRef = useRef(new Map<string, WrenchFilter>());
+  const statisticsRef = useRef(new Map<string, WrenchStatistics>());
+  const trailsRef = useRef<TrailSample[][]>([]); // display-frame forces per source, oldest first
+  const [statisticsResetTime, setStatisticsResetTime] = useState(-Infinity);
+  const integratorsRef = useRef(new Map<string, WrenchIntegrator>());
+  const [integratorResets, setIntegratorResets] = useState(0);
+  const [violations, setViolations] = useState<LimitViolation[]>([]);
+  const previousLimitLevelsRef = useRef<
+    (Record<WrenchChannel, LimitLevel> | undefined)[]
+  >([]);
+  // Force and torque magnitudes of the displayed wrenches per source, over the history window
+  const windowMaximaRef = useRef<
+    ({ force: WindowMaximum; torque: WindowMaximum } | undefined)[]
+  >([]);
+  const [windowMaxima, setWindowMaxima] = useState<
+    { force: number; torque: number }[]
+  >([]);
+  const [filteredWrenches, setFilteredWrenches] = useState<Map<string, Wrench>>(
+    new Map(),
+  );
+  const tfBufferRef = useRef(new TFBuffer());
+  const [robotDescription, setRobotDescription] = useState<
+    string | undefined
+  >();
+  const [robotModel, setRobotModel] = useState<RobotModel | undefined>();
+  const [tfFramesDisplay, setTfFramesDisplay] = useState<
+    TFFramesDisplay | undefined
+  >();
+  const [meshErrors, setMeshErrors] = useState<string[]>([]);
+  const [tfVersion, setTfVersion] = useState(0);
   const [renderDone, setRenderDone] = useState<(() => void) | undefined>();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const controlsRef = useRef<OrbitControls | null>(null);
-  const forceArrowRef = useRef<THREE.ArrowHelper | null>(null);
-  const torqueArrowRef = useRef<THREE.ArrowHelper | null>(null);
-  const sensorGroupRef = useRef<THREE.Group | null>(null);
-  const torqueRotationIndicatorRef = useRef<THREE.Group | null>(null);
+  const sensorVisualsRef = useRef<SensorVisual[]>([]);
   const animationFrameRef = useRef<number>(0);
+  const renderFrameRef = useRef<(() => void) | undefined>();
+  const cameraAnchorRef = useRef(new THREE.Vector3());
+  const followSourceIndexRef = useRef<number | undefined>();
   const gridHelperRef = useRef<THREE.GridHelper | null>(null);
 
   // Restore state from layout
   const [state, setState] = useState<PanelState>(() => {
-    const initialState = context.initialState as Partial<PanelState>;
-    return { 
+    const initialState = context.initialState as
+      | (Partial<PanelState> & LegacyPanelState)
+      | undefined;
+    const legacyDisplay = initialState?.display;
+    const defaultLimits = createDefaultLimits();
+    // Layouts saved before limits existed have no limits object
+    const savedLimits: Partial<LimitsConfig> | undefined =
+      initialState?.display?.limits;
+    const sources = initialState?.sources ?? [
+      {
+        ...createDefaultSource(0, initialState?.data?.topic),
+        showForce: legacyDisplay?.showForce ?? true,
+        showTorque: legacyDisplay?.showTorque ?? true,
+        forceScaleFactor: legacyDisplay?.forceScaleFactor ?? 1.0,
+        torqueScaleFactor: legacyDisplay?.torqueScaleFactor ?? 1.0,
+        forceColor: legacyDisplay?.forceColor ?? "#ff0000",
+        torqueColor: legacyDisplay?.torqueColor ?? "#ffff00",
+      },
+    ];
+    return {
       data: {
         label: initialState?.data?.label ?? "WrenchStamped Visualization",
-        topic: initialState?.data?.topic,
         visible: initialState?.data?.visible ?? true,
         fixedFrame: initialState?.data?.fixedFrame ?? "world",
+        tfBufferDuration: initialState?.data?.tfBufferDuration ?? 10,
+        tfTolerance: initialState?.data?.tfTolerance ?? 0.25,
+        preload: initialState?.data?.preload ?? false,
+        gravity: initialState?.data?.gravity ?? [0, 0, -9.81],
       },
+      sources: sources.map((source, index) => ({
+        ...createDefaultSource(index),
+        ...source,
+      })),
+      biases: initialState?.biases ?? {},
       display: {
-        showForce: initialState?.display?.showForce ?? true,
-        showTorque: initialState?.display?.showTorque ?? true,
-        forceScaleFactor: initialState?.display?.forceScaleFactor ?? 1.0,
-        torqueScaleFactor: initialState?.display?.torqueScaleFactor ?? 1.0,
-        forceColor: initialState?.display?.forceColor ?? "#ff0000",
-        torqueColor: initialState?.display?.torqueColor ?? "#ffff00",
         gridVisible: initialState?.display?.gridVisible ?? true,
         axesVisible: initialState?.display?.axesVisible ?? true,
         gridColor: initialState?.display?.gridColor ?? "#3791ff",
-      }
+        scalingMode: initialState?.display?.scalingMode ?? "linear",
+        forceUnit: initialState?.display?.forceUnit ?? "N",
+        torqueUnit: initialState?.display?.torqueUnit ?? "N·m",
+        limits: {
+          ...defaultLimits,
+          ...savedLimits,
+          channels: {
+            ...defaultLimits.channels,
+            ...savedLimits?.channels,
+          },
+        },
+      },
+      filter: {
+        type: initialState?.filter?.type ?? "none",
+        windowSize: initialState?.filter?.windowSize ?? 10,
+        cutoffFrequency: initialState?.filter?.cutoffFrequency ?? 5,
+        forceDeadband: initialState?.filter?.forceDeadband ?? 0.5,
+        torqueDeadband: initialState?.filter?.torqueDeadband ?? 0.05,
+        showRaw: initialState?.filter?.showRaw ?? false,
+      },
+      plot: {
+        visible: initialState?.plot?.visible ?? true,
+        sourceIndex: initialState?.plot?.sourceIndex ?? 0,
+        timeWindow: initialState?.plot?.timeWindow ?? 10,
+        height: initialState?.plot?.height ?? 160,
+        series: {
+          fx: true,
+          fy: true,
+          fz: true,
+          tx: true,
+          ty: true,
+          tz: true,
+          forceNorm: false,
+          torqueNorm: false,
+          ...initialState?.plot?.series,
+        },
+      },
+      command: {
+        enabled: initialState?.command?.enabled ?? false,
+        topic: initialState?.command?.topic ?? "/wrench_command",
+        sourceIndex: initialState?.command?.sourceIndex ?? 0,
+        publishMode: initialState?.command?.publishMode ?? "once",
+        rate: initialState?.command?.rate ?? 10,
+        forceClamp: initialState?.command?.forceClamp ?? [20, 20, 20],
+        torqueClamp: initialState?.command?.torqueClamp ?? [2, 2, 2],
+        torqueGain: initialState?.command?.torqueGain ?? 1,
+      },
+      statistics: {
+        visible: initialState?.statistics?.visible ?? false,
+        sourceIndex: initialState?.statistics?.sourceIndex ?? 0,
+        mode: initialState?.statistics?.mode ?? "window",
+        window: initialState?.statistics?.window ?? 10,
+      },
+      diagnostics: {
+        staleTimeout: initialState?.diagnostics?.staleTimeout ?? 1,
+        showTfTree: initialState?.diagnostics?.showTfTree ?? false,
+      },
+      export: {
+        sourceIndex: initialState?.export?.sourceIndex ?? 0,
+        start: initialState?.export?.start,
+        end: initialState?.export?.end,
+      },
+      camera: {
+        mode: initialState?.camera?.mode ?? "orbit",
+        followSourceIndex: initialState?.camera?.followSourceIndex ?? 0,
+        position: initialState?.camera?.position ?? DEFAULT_CAMERA_POSITION,
+        target: initialState?.camera?.target ?? [0, 0, 0],
+      },
+      robot: {
+        visible: initialState?.robot?.visible ?? true,
+        source: initialState?.robot?.source ?? "topic",
+        topic: initialState?.robot?.topic ?? "/robot_description",
+        parameter: initialState?.robot?.parameter ?? "/robot_description",
+        urdf: initialState?.robot?.urdf ?? "",
+        packageUrl: initialState?.robot?.packageUrl ?? "",
+        opacity: initialState?.robot?.opacity ?? 1,
+      },
+      tf: {
+        visible: initialState?.tf?.visible ?? false,
+        frames: initialState?.tf?.frames ?? {},
+        scale: initialState?.tf?.scale ?? 0.2,
+        showLabels: initialState?.tf?.showLabels ?? true,
+        showLinks: initialState?.tf?.showLinks ?? true,
+      },
+      trail: {
+        visible: initialState?.trail?.visible ?? false,
+        duration: initialState?.trail?.duration ?? 2,
+        fade: initialState?.trail?.fade ?? true,
+        heatMap: initialState?.trail?.heatMap ?? false,
+        heatMapRadius: initialState?.trail?.heatMapRadius ?? 0.3,
+        minForce: initialState?.trail?.minForce ?? 0.5,
+      },
     };
   });
+  // Color the grid is created with; the grid color effect replaces it on changes
+  const gridColorRef = useRef(state.display.gridColor);
 
-  // Filter topics for WrenchStamped message type only
-  const wrenchStampedTopics = useMemo(
-    () => (topics ?? []).filter((topic) =>
-      topic.schemaName === "geometry_msgs/msg/WrenchStamped" ||
-      topic.schemaName === "geometry_msgs/WrenchStamped"
-    ),
+  // Unique wrench topics across all sources
+  const sourceTopics = useMemo(() => {
+    const names = new Set<string>();
+    state.sources.forEach((source) => {
+      if (source.topic) {
+        names.add(source.topic);
+      }
+    });
+    return Array.from(names);
+  }, [state.sources]);
+
+  // Unique reference topics that are not also measured sources
+  const referenceTopics = useMemo(() => {
+    const names = new Set<string>();
+    state.sources.forEach((source) => {
+      if (
+        source.reference.topic &&
+        !sourceTopics.includes(source.reference.topic)
+      ) {
+        names.add(source.reference.topic);
+      }
+    });
+    return Array.from(names);
+  }, [state.sources, sourceTopics]);
+
+  // Filter topics for the schemas a wrench can be read from
+  const wrenchTopics = useMemo(
+    () =>
+      (topics ?? []).filter(
+        (topic) => wrenchSourceKind(topic.schemaName) != undefined,
+      ),
+    [topics],
+  );
+
+  // Frame of unstamped messages on every source and reference topic
+  const unstampedFrames = useMemo(() => {
+    const frames = new Map<string, string>();
+    state.sources.forEach((source) => {
+      const frame = source.unstampedFrame ?? state.data.fixedFrame;
+      [source.topic, source.reference.topic].forEach((topic) => {
+        if (topic && !frames.has(topic)) {
+          frames.set(topic, frame);
+        }
+      });
+    });
+    return frames;
+  }, [state.sources, state.data.fixedFrame]);
+
+  // Filter topics that can carry a robot description
+  const stringTopics = useMemo(
+    () =>
+      (topics ?? []).filter(
+        (topic) =>
+          topic.schemaName === "std_msgs/msg/String" ||
+          topic.schemaName === "std_msgs/String",
+      ),
     [topics],
   );
 
@@ -151,201 +677,347 @@ function WrenchPanel({ context }: { context: PanelExtensionContext }): JSX.Eleme
     frames.add(state.data.fixedFrame); // Add fixed frame
 
     // Add frames from TF tree
-    tfTree.forEach((node) => {
-      frames.add(node.frame_id);
-      if (node.parent_frame_id) {
-        frames.add(node.parent_frame_id);
+    void tfVersion;
+    tfBufferRef.current.frames().forEach((frame) => {
+      frames.add(frame.frameId);
+    });
+
+    // Add sensor frames of received wrench messages
+    messages.forEach((msg) => {
+      if (msg.message.header.frame_id) {
+        frames.add(msg.message.header.frame_id);
       }
     });
 
-    // Add sensor frame if available
-    if (sensorFrameId) {
-      frames.add(sensorFrameId);
+    return Array.from(frames).sort();
+  }, [tfVersion, state.data.fixedFrame, messages]);
+
+  // Publish a wrench command in the frame of the sensor group carrying the gizmo
+  const commandSource = state.sources[state.command.sourceIndex];
+  const commandMessage = commandSource?.topic
+    ? messages.get(commandSource.topic)
+    : undefined;
+  const commandFrameId =
+    commandSource?.displayFrame ?? commandMessage?.message.header.frame_id;
+  const commandTopic = state.command.enabled ? state.command.topic : undefined;
+  const commandSchemaName = wrenchTopics.some(
+    (topic) => topic.schemaName === "geometry_msgs/WrenchStamped",
+  )
+    ? "geometry_msgs/WrenchStamped"
+    : "geometry_msgs/msg/WrenchStamped";
+  const publishCommand = useCallback(
+    (wrench: Wrench) => {
+      if (!commandTopic || commandFrameId == undefined) {
+        return;
+      }
+      const stamp = toRosStamp(
+        fromNanoseconds(Date.now() * 1e6),
+        commandSchemaName === "geometry_msgs/WrenchStamped" ? 1 : 2,
+      );
+      context.publish?.(commandTopic, {
+        header: { frame_id: commandFrameId, stamp },
+        wrench,
+      });
+    },
+    [context, commandTopic, commandFrameId, commandSchemaName],
+  );
+
+  // Write the selected source over the export range to a CSV file
+  const exportCsv = useCallback(() => {
+    const exportSource = state.sources[state.export.sourceIndex];
+    const topic = exportSource?.topic;
+    const { start, end } = playbackRange;
+    if (!topic || !start || !end) {
+      setExportStatus("Select a source and wait for the playback range");
+      return;
     }
+    const startNs = stampToNanoseconds(start);
+    const rangeStart =
+      state.export.start != undefined
+        ? fromNanoseconds(startNs + state.export.start * 1e9)
+        : start;
+    const rangeEnd =
+      state.export.end != undefined
+        ? fromNanoseconds(startNs + state.export.end * 1e9)
+        : end;
 
-    return Array.from(frames).sort();
-  }, [tfTree, state.data.fixedFrame, sensorFrameId]);
+    setExportStatus("Exporting...");
+    exportWrenchCsv(context, {
+      topic,
+      tfTopics: tfTopics.map((tfTopic) => tfTopic.name),
+      fixedFrame: state.data.fixedFrame,
+      unstampedFrame: exportSource.unstampedFrame ?? state.data.fixedFrame,
+      start: rangeStart,
+      end: rangeEnd,
+    })
+      .then((csv) => {
+        const rowCount = csv.split("\n").length - 2;
+        downloadTextFile(
+          `${topic.replace(/^\//, "").replace(/\//g, "_")}.csv`,
+          csv,
+        );
+        setExportStatus(`Exported ${rowCount} messages`);
+      })
+      .catch((error: unknown) => {
+        setExportStatus(
+          `Export failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      });
+  }, [
+    context,
+    state.sources,
+    state.export,
+    state.data.fixedFrame,
+    playbackRange,
+    tfTopics,
+  ]);
+
+  // Look up the pose of sourceFrame in targetFrame at the given time (nanoseconds, latest if omitted)
+  const lookupTransform = useCallback(
+    (
+      targetFrame: string,
+      sourceFrame: string,
+      time?: number,
+    ): TransformLookupResult => {
+      // tfVersion invalidates callers when the buffer content changes
+      void tfVersion;
+      return tfBufferRef.current.lookupTransform(
+        targetFrame,
+        sourceFrame,
+        time,
+      );
+    },
+    [tfVersion],
+  );
+
+  // Last valid transform of every frame pair looked up for the scene, cleared on seek
+  const heldTransformsRef = useRef(new Map<string, Transform>());
+  const lookupHeldTransform = useCallback(
+    (
+      targetFrame: string,
+      sourceFrame: string,
+      time?: number,
+    ): HeldLookupResult => {
+      void tfVersion;
+      return lookupHeld(
+        tfBufferRef.current,
+        heldTransformsRef.current,
+        targetFrame,
+        sourceFrame,
+        time,
+      );
+    },
+    [tfVersion],
+  );
 
   // Handle settings actions
   const actionHandler = useCallback(
     (action: SettingsTreeAction) => {
       if (action.action === "update") {
-        const { path, value } = action.payload;
-        setState(produce((draft) => set(draft, path, value)));
-
-        // Update subscription if topic changed
-        if (path[1] === "topic") {
-          context.subscribe([{ topic: value as string }]);
+        const { path, input, value } = action.payload;
+        // Cleared vector components come back undefined
+        const newValue =
+          input === "vec3" ? (value ?? [0, 0, 0]).map((v) => v ?? 0) : value;
+        setState(
+          produce((draft) => {
+            // Visibility toggles of frame nodes send [...path, "visible"], but the frame map
+            // stores the flag itself
+            if (path[0] === "tf" && path[1] === "frames") {
+              draft.tf.frames[path[2]!] = value as boolean;
+              return;
+            }
+            // Keep the view direction and distance when the orbit anchor changes
+            if (path[0] === "camera" && path[1] === "mode") {
+              const { position, target } = draft.camera;
+              draft.camera.position = [
+                position[0] - target[0],
+                position[1] - target[1],
+                position[2] - target[2],
+              ];
+              draft.camera.target = [0, 0, 0];
+            }
+            set(draft, path, newValue);
+          }),
+        );
+      } else {
+        const { id, path } = action.payload;
+        if (id === "add-source") {
+          setState(
+            produce((draft) => {
+              draft.sources.push(createDefaultSource(draft.sources.length));
+            }),
+          );
+        } else if (id === "tare" && path[0] === "sources") {
+          const index = Number(path[1]);
+          // With payload compensation the bias leaves the predicted weight in the reading, so the
+          // compensated wrench reads zero right after taring. The sensor pose is resolved before
+          // the state update since the lookup records held transforms.
+          const tareSource = state.sources[index];
+          const msg = tareSource?.topic
+            ? messages.get(tareSource.topic)
+            : undefined;
+          const sensorPose =
+            tareSource?.payload.compensate === true && msg
+              ? lookupHeldTransform(
+                  state.data.fixedFrame,
+                  msg.message.header.frame_id,
+                  stampToNanoseconds(msg.message.header.stamp),
+                ).transform
+              : undefined;
+          setState(
+            produce((draft) => {
+              const source = draft.sources[index];
+              const history = source?.topic
+                ? historyRef.current.get(source.topic)
+                : undefined;
+              if (!source?.topic || !history || history.length === 0) {
+                return;
+              }
+              const recent = history.slice(
+                -Math.max(1, Math.round(source.tareSamples)),
+              );
+              const average = averageWrench(
+                recent.map((sample) => sample.wrench),
+              );
+              draft.biases[source.topic] = sensorPose
+                ? subtractWrench(
+                    average,
+                    predictedPayloadWrench(
+                      source,
+                      draft.data.gravity,
+                      sensorPose,
+                    ),
+                  )
+                : average;
+            }),
+          );
+        } else if (id === "clear-bias" && path[0] === "sources") {
+          const index = Number(path[1]);
+          setState(
+            produce((draft) => {
+              const topic = draft.sources[index]?.topic;
+              if (topic) {
+                delete draft.biases[topic];
+              }
+            }),
+          );
+        } else if (id in CAMERA_PRESETS) {
+          setState(
+            produce((draft) => {
+              const { position, target } = draft.camera;
+              const currentDistance = Math.hypot(
+                position[0] - target[0],
+                position[1] - target[1],
+                position[2] - target[2],
+              );
+              const distance = currentDistance > 0 ? currentDistance : 3;
+              const direction = new THREE.Vector3(
+                ...CAMERA_PRESETS[id]!,
+              ).normalize();
+              draft.camera.position = [
+                target[0] + direction.x * distance,
+                target[1] + direction.y * distance,
+                target[2] + direction.z * distance,
+              ];
+            }),
+          );
+        } else if (id === "camera-reset") {
+          setState(
+            produce((draft) => {
+              draft.camera.position = DEFAULT_CAMERA_POSITION;
+              draft.camera.target = [0, 0, 0];
+            }),
+          );
+        } else if (id === "command-publish") {
+          publishCommand(commandWrench);
+        } else if (id === "command-zero") {
+          setCommandWrench(ZERO_WRENCH);
+          commandGizmo?.setWrench(ZERO_WRENCH);
+          publishCommand(ZERO_WRENCH);
+        } else if (id === "export-csv") {
+          exportCsv();
+        } else if (id === "load-urdf-file") {
+          const input = document.createElement("input");
+          input.type = "file";
+          input.accept = ".urdf,.xml";
+          input.onchange = () => {
+            void input.files?.[0]?.text().then((urdf) => {
+              setState(
+                produce((draft) => {
+                  draft.robot.urdf = urdf;
+                  draft.robot.source = "string";
+                }),
+              );
+            });
+          };
+          input.click();
+        } else if (id === "remove-source" && path[0] === "sources") {
+          const index = Number(path[1]);
+          setState(
+            produce((draft) => {
+              draft.sources.splice(index, 1);
+              if (draft.plot.sourceIndex > index) {
+                draft.plot.sourceIndex--;
+              }
+              if (draft.camera.followSourceIndex > index) {
+                draft.camera.followSourceIndex--;
+              }
+              if (draft.export.sourceIndex > index) {
+                draft.export.sourceIndex--;
+              }
+              if (draft.statistics.sourceIndex > index) {
+                draft.statistics.sourceIndex--;
+              }
+              if (draft.command.sourceIndex > index) {
+                draft.command.sourceIndex--;
+              }
+            }),
+          );
+          // The paused snapshot, the inspected arrow, the trails, the limit levels and the maxima
+          // are indexed by source
+          setPausedView(undefined);
+          setArrowPick(undefined);
+          trailsRef.current.splice(index, 1);
+          previousLimitLevelsRef.current.splice(index, 1);
+          windowMaximaRef.current.splice(index, 1);
+          setWindowMaxima((prev) => prev.filter((_, i) => i !== index));
         }
       }
     },
-    [context],
+    [
+      exportCsv,
+      publishCommand,
+      commandWrench,
+      commandGizmo,
+      messages,
+      lookupHeldTransform,
+      state.sources,
+      state.data.fixedFrame,
+    ],
   );
 
-  // Helper function to update TF tree with new transform information
+  // Add new transforms to the TF buffer. Transforms from /tf_static never expire.
   const updateTFTree = useCallback((newTfMessages: TFMessageEvent[]) => {
-    setTfTree(prevTree => {
-      const newTree = new Map(prevTree);
-      
-      newTfMessages.forEach(tfMsg => {
-        tfMsg.message.transforms.forEach(transform => {
-          const parentFrame = transform.header.frame_id;
-          const childFrame = transform.child_frame_id;
-          const timestamp = transform.header.stamp.sec * 1e9 + transform.header.stamp.nsec;
-
-          // Add or update child frame node
-          newTree.set(childFrame, {
-            frame_id: childFrame,
-            parent_frame_id: parentFrame,
-            transform: transform.transform,
-            timestamp
-          });
-          
-          // Ensure parent frame exists (might not have a parent itself yet)
-          if (!newTree.has(parentFrame)) {
-            newTree.set(parentFrame, {
-              frame_id: parentFrame,
-              transform: { 
-                translation: { x: 0, y: 0, z: 0 }, 
-                rotation: { x: 0, y: 0, z: 0, w: 1 } 
-              },
-              timestamp
-            });
-          }
-        });
+    const tfBuffer = tfBufferRef.current;
+    newTfMessages.forEach((tfMsg) => {
+      const isStatic = tfMsg.topic.endsWith("tf_static");
+      tfMsg.message.transforms.forEach((transform) => {
+        tfBuffer.addTransform(transform, { isStatic });
       });
-      
-      return newTree;
     });
+    setTfVersion((version) => version + 1);
   }, []);
 
-  // Find transform path between two frames
-  const findTransformPath = useCallback((sourceFrame: string, targetFrame: string): string[] => {
-    if (sourceFrame === targetFrame) {
-      return [sourceFrame];
-    }
-    
-    // Simple BFS to find path
-    const visited = new Set<string>();
-    const queue: { frame: string; path: string[] }[] = [{ frame: sourceFrame, path: [sourceFrame] }];
-    
-    while (queue.length > 0) {
-      const { frame, path } = queue.shift()!;
-      
-      if (frame === targetFrame) {
-        return path;
-      }
-      
-      if (visited.has(frame)) {
-        continue;
-      }
-      
-      visited.add(frame);
-      
-      // Find all connected frames (children and parents)
-      tfTree.forEach((node, nodeFrameId) => {
-        // Check if this node is a child of current frame
-        if (node.parent_frame_id === frame && !visited.has(nodeFrameId)) {
-          queue.push({ frame: nodeFrameId, path: [...path, nodeFrameId] });
-        }
-        
-        // Check if this node is a parent of current frame
-        if (nodeFrameId === node.parent_frame_id && node.frame_id === frame && !visited.has(nodeFrameId)) {
-          queue.push({ frame: nodeFrameId, path: [...path, nodeFrameId] });
-        }
-      });
-    }
-    
-    return []; // No path found
-  }, [tfTree]);
-
-  // Compute transform between two frames by walking the transform tree
-  const computeTransform = useCallback((sourceFrame: string, targetFrame: string): Transform | null => {
-    if (sourceFrame === targetFrame) {
-      return {
-        translation: { x: 0, y: 0, z: 0 },
-        rotation: { x: 0, y: 0, z: 0, w: 1 }
-      };
-    }
-    
-    // Find path between frames
-    const path = findTransformPath(sourceFrame, targetFrame);
-    
-    if (path.length < 2) {
-      return null; // No path found
-    }
-    
-    // Initialize with identity transform
-    let resultTransform = new THREE.Matrix4().identity();
-    
-    // Walk through the path applying transforms
-    for (let i = 0; i < path.length - 1; i++) {
-      const fromFrame = path[i];
-      const toFrame = path[i + 1];
-      
-      // Get the transform
-      let transform: Transform | null = null;
-      let inverse = false;
-      
-      // Check direct transform
-      const toNode = tfTree.get(toFrame!);
-      if (toNode && toNode.parent_frame_id === fromFrame) {
-        transform = toNode.transform;
-        inverse = false;
-      } else {
-        // Check inverse transform
-        const fromNode = tfTree.get(fromFrame!);
-        if (fromNode && fromNode.parent_frame_id === toFrame) {
-          transform = fromNode.transform;
-          inverse = true;
-        }
-      }
-      
-      if (!transform) {
-        return null; // Missing transform in path
-      }
-      
-      // Convert to THREE.js objects
-      const translation = new THREE.Vector3(
-        transform.translation.x,
-        transform.translation.y,
-        transform.translation.z
-      );
-      const rotation = new THREE.Quaternion(
-        transform.rotation.x,
-        transform.rotation.y,
-        transform.rotation.z,
-        transform.rotation.w
-      );
-      
-      // Create transform matrix
-      const mat = new THREE.Matrix4().compose(
-        translation,
-        rotation,
-        new THREE.Vector3(1, 1, 1)
-      );
-      
-      // Apply inverse if needed
-      if (inverse) {
-        mat.invert();
-      }
-      
-      // Multiply into result
-      resultTransform.multiply(mat);
+  // Draw one frame on the next animation frame; repeated requests before then are merged
+  const requestRender = useCallback(() => {
+    if (animationFrameRef.current !== 0) {
+      return;
     }
-    
-    // Extract final translation and rotation
-    const position = new THREE.Vector3();
-    const quaternion = new THREE.Quaternion();
-    const scale = new THREE.Vector3();
-    
-    resultTransform.decompose(position, quaternion, scale);
-    
-    return {
-      translation: { x: position.x, y: position.y, z: position.z },
-      rotation: { x: quaternion.x, y: quaternion.y, z: quaternion.z, w: quaternion.w }
-    };
-  }, [tfTree, findTransformPath]);
+    animationFrameRef.current = requestAnimationFrame(() => {
+      animationFrameRef.current = 0;
+      renderFrameRef.current?.();
+    });
+  }, []);
 
   // Setup Three.js scene
   const setupScene = useCallback(() => {
@@ -391,155 +1063,695 @@ function WrenchPanel({ context }: { context: PanelExtensionContext }): JSX.Eleme
     controls.dampingFactor = 0.25;
     controlsRef.current = controls;
 
+    // Persist the view relative to the anchor once the user stops dragging
+    controls.addEventListener("end", () => {
+      const anchor = cameraAnchorRef.current;
+      const position = camera.position.clone().sub(anchor);
+      const target = controls.target.clone().sub(anchor);
+      setState(
+        produce((draft) => {
+          draft.camera.position = [position.x, position.y, position.z];
+          draft.camera.target = [target.x, target.y, target.z];
+        }),
+      );
+    });
+
     // Add grid
-    const gridColor = parseInt(state.display.gridColor.substring(1), 16);
+    const gridColor = parseInt(gridColorRef.current.substring(1), 16);
     const gridHelper = new THREE.GridHelper(10, 10, gridColor, gridColor);
     gridHelper.rotation.x = Math.PI / 2; // 90 degree rotation around X axis
-    gridHelper.visible = state.display.gridVisible;
     scene.add(gridHelper);
     gridHelperRef.current = gridHelper;
 
     // Add axes
     const axesHelper = new THREE.AxesHelper(1);
-    axesHelper.visible = state.display.axesVisible;
     scene.add(axesHelper);
 
-    // Create sensor group
-    const sensorGroup = new THREE.Group();
-    scene.add(sensorGroup);
-    sensorGroupRef.current = sensorGroup;
-
-    // Create force arrow (initial)
-    const forceArrow = new THREE.ArrowHelper(
-      new THREE.Vector3(1, 0, 0),
-      new THREE.Vector3(0, 0, 0),
-      1,
-      parseInt(state.display.forceColor.substring(1), 16),
-      0.2,
-      0.1
-    );
-    forceArrow.visible = state.display.showForce;
-    sensorGroup.add(forceArrow);
-    forceArrowRef.current = forceArrow;
-
-    // Create torque arrow (initial)
-    const torqueArrow = new THREE.ArrowHelper(
-      new THREE.Vector3(0, 1, 0),
-      new THREE.Vector3(0, 0, 0),
-      1,
-      parseInt(state.display.torqueColor.substring(1), 16),
-      0.2,
-      0.1
-    );
-    torqueArrow.visible = state.display.showTorque;
-    sensorGroup.add(torqueArrow);
-    torqueArrowRef.current = torqueArrow;
-
-    const torqueRotationIndicator = createTorqueRotationIndicator(
-      new THREE.Vector3(0, 1, 0),
-      state.display.torqueScaleFactor,
-      0.5, // radius
-      parseInt(state.display.torqueColor.substring(1), 16)
-    );
-    torqueRotationIndicator.visible = state.display.showTorque;
-    sensorGroup.add(torqueRotationIndicator);
-    torqueRotationIndicatorRef.current = torqueRotationIndicator;
+    // Sensor groups are recreated for the new scene by the source sync effect
+    sensorVisualsRef.current = [];
 
-    // Add a small coordinate axes at sensor position
-    const sensorAxes = new THREE.AxesHelper(0.3);
-    sensorGroup.add(sensorAxes);
+    // The controls report every camera change, including each step of the damping after a drag
+    controls.addEventListener("change", requestRender);
 
-    // Animation loop
-    const animate = () => {
-      animationFrameRef.current = requestAnimationFrame(animate);
-      if (controlsRef.current) {
-        controlsRef.current.update();
-      }
-      if (rendererRef.current && sceneRef.current && cameraRef.current) {
-        rendererRef.current.render(sceneRef.current, cameraRef.current);
+    // Draw the scene; frames are only requested when something changed
+    renderFrameRef.current = () => {
+      // Carry the camera along with the followed sensor
+      const followIndex = followSourceIndexRef.current;
+      const followed =
+        followIndex != undefined
+          ? sensorVisualsRef.current[followIndex]?.group.position
+          : undefined;
+      if (followed && !followed.equals(cameraAnchorRef.current)) {
+        const delta = followed.clone().sub(cameraAnchorRef.current);
+        camera.position.add(delta);
+        controls.target.add(delta);
+        cameraAnchorRef.current.copy(followed);
       }
+
+      controls.update();
+      renderer.render(scene, camera);
     };
-    animate();
-  }, [state.display.gridVisible, state.display.axesVisible, state.display.showForce, state.display.showTorque, state.display.forceColor, state.display.torqueColor]);
+    requestRender();
+  }, [requestRender]);
 
-  // Update sensor position based on TF data
-  const updateSensorPosition = useCallback(() => {
-    if (!sensorGroupRef.current || !sensorFrameId || sensorFrameId === state.data.fixedFrame) {
+  // Keep one sensor group per configured source in the scene
+  const syncSensorVisuals = useCallback(() => {
+    const scene = sceneRef.current;
+    if (!scene) {
       return;
     }
 
-    const transform = computeTransform(state.data.fixedFrame, sensorFrameId);
-    if (transform) {
+    const visuals = sensorVisualsRef.current;
+    while (visuals.length > state.sources.length) {
+      const visual = visuals.pop();
+      if (visual) {
+        scene.remove(visual.group);
+        disposeObject(visual.group);
+      }
+    }
+
+    state.sources.forEach((source, index) => {
+      let visual = visuals[index];
+      if (!visual) {
+        visual = createSensorVisual(source);
+        scene.add(visual.group);
+        visuals[index] = visual;
+      }
+      visual.group.visible = source.visible;
+      visual.forceArrow.setColor(parseInt(source.forceColor.substring(1), 16));
+      visual.torqueArrow.setColor(
+        parseInt(source.torqueColor.substring(1), 16),
+      );
+    });
+  }, [state.sources]);
+
+  // Wrench of every source expressed in its display frame, with that frame's pose in the fixed frame
+  const displayedWrenches = useMemo(
+    () =>
+      state.sources.map((source): DisplayedWrench | undefined => {
+        const msg = source.topic ? messages.get(source.topic) : undefined;
+        if (!msg) {
+          return undefined;
+        }
+        const { header } = msg.message;
+
+        // Remove the tared bias; the filter stage already works on bias-free samples
+        const bias = state.biases[msg.topic];
+        const rawWrench = bias
+          ? subtractWrench(msg.message.wrench, bias)
+          : msg.message.wrench;
+        const filteredWrench = filteredWrenches.get(msg.topic);
+
+        const frames = resolveSourceFrames(source, header, {
+          fixedFrame: state.data.fixedFrame,
+          gravity: state.data.gravity,
+          lookup: lookupHeldTransform,
+        });
+        const { frameId, sensorInDisplay, framePose } = frames;
+        const errors = [...frames.errors];
+        const toDisplayFrame = (wrench: Wrench): Wrench =>
+          sensorInDisplay ? transformWrench(wrench, sensorInDisplay) : wrench;
+
+        // The contact surface is given in the sensor frame
+        const sensorWrench = compensatePayload(
+          filteredWrench ?? rawWrench,
+          frames,
+        );
+        const sensorContact = source.contact.showLineOfAction
+          ? estimateContact(sensorWrench, source.contact)
+          : undefined;
+        const contact =
+          sensorContact && sensorInDisplay
+            ? transformContactEstimate(sensorContact, sensorInDisplay)
+            : sensorContact;
+        const sensorContacts = msg.message.contacts;
+        const contacts =
+          sensorContacts && sensorInDisplay
+            ? transformContactPoints(sensorContacts, sensorInDisplay)
+            : sensorContacts;
+
+        // Reference wrench, optionally brought into the same frame as the measurement
+        const referenceMsg = source.reference.topic
+          ? messages.get(source.reference.topic)
+          : undefined;
+        let reference = referenceMsg?.message.wrench;
+        let referenceFrameMatches = true;
+        if (referenceMsg && source.reference.transformToCommonFrame) {
+          const referenceInDisplay = lookupTransform(
+            frameId,
+            referenceMsg.message.header.frame_id,
+            stampToNanoseconds(referenceMsg.message.header.stamp),
+          );
+          if (referenceInDisplay.transform) {
+            reference = transformWrench(
+              referenceMsg.message.wrench,
+              referenceInDisplay.transform,
+            );
+          } else {
+            errors.push(`Reference: ${referenceInDisplay.error}`);
+            reference = undefined;
+          }
+        } else if (
+          referenceMsg &&
+          referenceMsg.message.header.frame_id !== frameId
+        ) {
+          // Components in different frames cannot be subtracted, so the wrench error is hidden
+          referenceFrameMatches = false;
+          errors.push(
+            `Reference: frame ${referenceMsg.message.header.frame_id} differs from ${frameId}; ` +
+              "enable Common Frame to compare them",
+          );
+        }
+        const wrench = toDisplayFrame(sensorWrench);
+
+        return {
+          frameId,
+          stamp: header.stamp,
+          wrench,
+          reference,
+          error:
+            reference && referenceFrameMatches
+              ? subtractWrench(wrench, reference)
+              : undefined,
+          rawWrench: filteredWrench
+            ? toDisplayedWrench(rawWrench, frames)
+            : undefined,
+          contact,
+          contacts,
+          framePose,
+          errors,
+        };
+      }),
+    [
+      state.sources,
+      state.biases,
+      state.data.fixedFrame,
+      state.data.gravity,
+      messages,
+      filteredWrenches,
+      lookupTransform,
+      lookupHeldTransform,
+    ],
+  );
+
+  // The 3D view draws the frozen snapshot while paused; readouts keep following the live data
+  const sceneWrenches = pausedView?.wrenches ?? displayedWrenches;
+  const viewPaused = pausedView != undefined;
+
+  // Update sensor positions based on TF data
+  const updateSensorPositions = useCallback(() => {
+    sceneWrenches.forEach((displayed, index) => {
+      const visual = sensorVisualsRef.current[index];
+      if (!visual || !displayed) {
+        return;
+      }
+      // A failed lookup holds the last valid pose; without one the group is hidden
+      const transform = displayed.framePose.transform;
+      visual.group.visible =
+        (state.sources[index]?.visible ?? false) && transform != undefined;
+      if (!transform) {
+        return;
+      }
+
       const { translation, rotation } = transform;
-      
+
       // Update position
-      sensorGroupRef.current.position.set(translation.x, translation.y, translation.z);
-      
+      visual.group.position.set(translation.x, translation.y, translation.z);
+
       // Update rotation
-      const quaternion = new THREE.Quaternion(rotation.x, rotation.y, rotation.z, rotation.w);
-      sensorGroupRef.current.quaternion.copy(quaternion);
-    }
-  }, [sensorFrameId, state.data.fixedFrame, computeTransform]);
+      visual.group.quaternion.set(
+        rotation.x,
+        rotation.y,
+        rotation.z,
+        rotation.w,
+      );
+    });
+  }, [sceneWrenches, state.sources]);
 
-  // Update arrows based on message
-  const updateArrows = useCallback(() => {
-    if (!forceArrowRef.current || !torqueArrowRef.current || !torqueRotationIndicatorRef.current || !message) return;
+  // Limit level of every source's displayed wrench
+  const limitResults = useMemo(
+    () =>
+      displayedWrenches.map((displayed) =>
+        displayed
+          ? evaluateLimits(displayed.wrench, state.display.limits)
+          : undefined,
+      ),
+    [displayedWrenches, state.display.limits],
+  );
 
-    const { force, torque } = message.message.wrench;
-    
-    // Update force arrow
-    const forceVector = new THREE.Vector3(force.x, force.y, force.z);
-    const forceLength = forceVector.length();
-    if (forceLength > 0) {
-      forceVector.normalize();
-      forceArrowRef.current.setDirection(forceVector);
-      forceArrowRef.current.setLength(
-        forceLength * state.display.forceScaleFactor,
-        forceLength * state.display.forceScaleFactor * 0.2,
-        forceLength * state.display.forceScaleFactor * 0.1
-      );
-    }
-    forceArrowRef.current.visible = state.display.showForce;
-    
-    // Update torque arrow
-    const torqueVector = new THREE.Vector3(torque.x, torque.y, torque.z);
-    const torqueLength = torqueVector.length();
-    if (torqueLength > 0) {
-      torqueVector.normalize();
-      torqueArrowRef.current.setDirection(torqueVector);
-      torqueArrowRef.current.setLength(
-        torqueLength * state.display.torqueScaleFactor,
-        torqueLength * state.display.torqueScaleFactor * 0.2,
-        torqueLength * state.display.torqueScaleFactor * 0.1
+  const alarmLevel = useMemo(
+    () =>
+      limitResults.reduce<LimitLevel>(
+        (level, result) =>
+          result
+            ? worstLevel(level, worstLevel(result.force, result.torque))
+            : level,
+        "ok",
+      ),
+    [limitResults],
+  );
+
+  // Message rate of every source over the last RATE_WINDOW seconds of its history
+  const messageRates = useMemo(() => {
+    void messages;
+    return state.sources.map((source) => {
+      const history = source.topic
+        ? (historyRef.current.get(source.topic) ?? [])
+        : [];
+      const lastTime = history[history.length - 1]?.time;
+      if (lastTime == undefined) {
+        return undefined;
+      }
+      const recent = history.filter(
+        (sample) => sample.time > lastTime - RATE_WINDOW,
       );
-      
-      // Remove old indicator
-      if (torqueRotationIndicatorRef.current.parent) {
-        torqueRotationIndicatorRef.current.parent.remove(torqueRotationIndicatorRef.current);
+      const span = lastTime - recent[0]!.time;
+      return span > 0 ? (recent.length - 1) / span : undefined;
+    });
+  }, [messages, state.sources]);
+
+  // Sources whose latest message is older than the stale timeout at the playback time
+  const staleTimeout = state.diagnostics.staleTimeout;
+  const staleSources = useMemo(
+    () =>
+      state.sources.map((source) => {
+        const msg = source.topic ? messages.get(source.topic) : undefined;
+        return (
+          msg != undefined &&
+          currentTime != undefined &&
+          currentTime - toSeconds(msg.receiveTime) > staleTimeout
+        );
+      }),
+    [state.sources, messages, currentTime, staleTimeout],
+  );
+
+  // Frames of the TF tree for the inspector, sorted by name
+  const tfFrames = useMemo(() => {
+    void tfVersion;
+    return tfBufferRef.current
+      .frames()
+      .sort((a, b) => a.frameId.localeCompare(b.frameId));
+  }, [tfVersion]);
+
+  // Largest force and torque magnitude of every source over the retained history, for auto-fit
+  // scaling and the magnitude colors. The window maxima follow the played messages; the current
+  // arrows are included so settings changes show up before the next message.
+  const recentMaxima = useMemo(
+    () =>
+      state.sources.map((_, index) => {
+        const maxima = windowMaxima[index] ?? { force: 0, torque: 0 };
+        const displayed = displayedWrenches[index];
+        return displayed
+          ? {
+              force: Math.max(maxima.force, magnitude(displayed.wrench.force)),
+              torque: Math.max(
+                maxima.torque,
+                magnitude(displayed.wrench.torque),
+              ),
+            }
+          : maxima;
+      }),
+    [state.sources, windowMaxima, displayedWrenches],
+  );
+
+  const sceneLimitResults = pausedView?.limitResults ?? limitResults;
+  const sceneMaxima = pausedView?.maxima ?? recentMaxima;
+
+  // Freeze the 3D view on the current wrenches, or return to live data
+  const togglePause = () => {
+    setPausedView((prev) =>
+      prev
+        ? undefined
+        : { wrenches: displayedWrenches, limitResults, maxima: recentMaxima },
+    );
+  };
+
+  // Source and arrow under a point of the canvas, nearest to the camera first
+  const pickArrow = useCallback(
+    (
+      clientX: number,
+      clientY: number,
+    ): Pick<ArrowPick, "sourceIndex" | "kind"> | undefined => {
+      const canvas = canvasRef.current;
+      const camera = cameraRef.current;
+      if (!canvas || !camera) {
+        return undefined;
       }
-      
-      // Create a new indicator
-      const radius = torqueLength * state.display.torqueScaleFactor * 0.15;
-      const newIndicator = createTorqueRotationIndicator(
-        torqueVector,
-        torqueLength * state.display.torqueScaleFactor,
-        radius,
-        parseInt(state.display.torqueColor.substring(1), 16)
+      const rect = canvas.getBoundingClientRect();
+      const raycaster = new THREE.Raycaster();
+      raycaster.params.Line.threshold = PICK_LINE_THRESHOLD;
+      raycaster.setFromCamera(
+        new THREE.Vector2(
+          ((clientX - rect.left) / rect.width) * 2 - 1,
+          -((clientY - rect.top) / rect.height) * 2 + 1,
+        ),
+        camera,
       );
-      newIndicator.visible = state.display.showTorque;
-      sensorGroupRef.current?.add(newIndicator);
-      torqueRotationIndicatorRef.current = newIndicator;
-    }
-    torqueArrowRef.current.visible = state.display.showTorque;
-    torqueRotationIndicatorRef.current.visible = state.display.showTorque;
-  }, [message, state.display.showForce, state.display.showTorque, state.display.forceScaleFactor, state.display.torqueScaleFactor]);
-  
-  // Resize handler
-  const handleResize = useCallback(() => {
-    if (!canvasRef.current || !rendererRef.current || !cameraRef.current) return;
-    
-    // Get the size of the parent container
-    const width = canvasRef.current.parentElement?.clientWidth || canvasRef.current.clientWidth;
+
+      // The raycaster ignores visibility, so hidden arrows are left out here
+      let best:
+        | (Pick<ArrowPick, "sourceIndex" | "kind"> & { distance: number })
+        | undefined;
+      sensorVisualsRef.current.forEach((visual, sourceIndex) => {
+        if (!visual.group.visible) {
+          return;
+        }
+        const targets: {
+          kind: ArrowPick["kind"];
+          objects: THREE.Object3D[];
+        }[] = [
+          { kind: "force", objects: [visual.forceArrow] },
+          {
+            kind: "torque",
+            objects: [visual.torqueArrow, visual.torqueRotationIndicator],
+          },
+        ];
+        targets.forEach(({ kind, objects }) => {
+          const hit = raycaster.intersectObjects(
+            objects.filter((object) => object.visible),
+            true,
+          )[0];
+          if (hit && (!best || hit.distance < best.distance)) {
+            best = { sourceIndex, kind, distance: hit.distance };
+          }
+        });
+      });
+      return best && { sourceIndex: best.sourceIndex, kind: best.kind };
+    },
+    [],
+  );
+
+  // Update arrows of every source based on its latest message
+  const updateArrows = useCallback(() => {
+    state.sources.forEach((source, index) => {
+      const visual = sensorVisualsRef.current[index];
+      const displayed = sceneWrenches[index];
+      if (!visual) {
+        return;
+      }
+
+      const showRaw = state.filter.showRaw && displayed?.rawWrench != undefined;
+      visual.forceArrow.visible = source.showForce && displayed != undefined;
+      visual.torqueArrow.visible = source.showTorque && displayed != undefined;
+      visual.torqueRotationIndicator.visible =
+        source.showTorque && displayed != undefined;
+      visual.rawForceArrow.visible = source.showForce && showRaw;
+      visual.rawTorqueArrow.visible = source.showTorque && showRaw;
+      const reference = displayed?.reference;
+      const error = source.reference.showError ? displayed?.error : undefined;
+      visual.referenceForceArrow.visible =
+        source.showForce && reference != undefined;
+      visual.referenceTorqueArrow.visible =
+        source.showTorque && reference != undefined;
+      visual.errorForceArrow.visible = source.showForce && error != undefined;
+      visual.errorTorqueArrow.visible = source.showTorque && error != undefined;
+      if (!displayed) {
+        return;
+      }
+
+      const { force, torque } = displayed.wrench;
+      const scalingMode = state.display.scalingMode;
+      const maxima = sceneMaxima[index] ?? { force: 0, torque: 0 };
+      const forceLength = (vector: Vector3) =>
+        arrowLength(
+          Math.hypot(vector.x, vector.y, vector.z),
+          scalingMode,
+          source.forceScaleFactor,
+          maxima.force,
+        );
+      const torqueLength = (vector: Vector3) =>
+        arrowLength(
+          Math.hypot(vector.x, vector.y, vector.z),
+          scalingMode,
+          source.torqueScaleFactor,
+          maxima.torque,
+        );
+
+      // Arrows turn the alarm color while a limit is crossed. Normalized arrows all have the same
+      // length, so their color shows the magnitude instead of the source.
+      const limitResult = sceneLimitResults[index];
+      const limitColors: Record<LimitLevel, string | undefined> = {
+        ok: undefined,
+        warning: state.display.limits.warningColor,
+        critical: state.display.limits.criticalColor,
+      };
+      const baseForceColor =
+        scalingMode === "normalized"
+          ? magnitudeColor(Math.hypot(force.x, force.y, force.z), maxima.force)
+          : new THREE.Color(source.forceColor);
+      const baseTorqueColor =
+        scalingMode === "normalized"
+          ? magnitudeColor(
+              Math.hypot(torque.x, torque.y, torque.z),
+              maxima.torque,
+            )
+          : new THREE.Color(source.torqueColor);
+      const forceLimitColor = limitColors[limitResult?.force ?? "ok"];
+      const torqueLimitColor = limitColors[limitResult?.torque ?? "ok"];
+      const forceColor = forceLimitColor
+        ? new THREE.Color(forceLimitColor)
+        : baseForceColor;
+      const torqueColor = torqueLimitColor
+        ? new THREE.Color(torqueLimitColor)
+        : baseTorqueColor;
+      visual.forceArrow.setColor(forceColor);
+      visual.torqueArrow.setColor(torqueColor);
+
+      // Update force arrow
+      updateArrowHelper(visual.forceArrow, force, forceLength(force));
+
+      // Update torque arrow
+      const torqueVector = toThreeVector(torque);
+      const torqueArrowLength = torqueLength(torque);
+      updateArrowHelper(visual.torqueArrow, torque, torqueArrowLength);
+      if (torqueArrowLength === 0) {
+        visual.torqueRotationIndicator.visible = false;
+      } else {
+        updateTorqueRotationIndicator(
+          visual.torqueRotationIndicator,
+          torqueVector.normalize(),
+          torqueArrowLength,
+          torqueColor,
+        );
+      }
+
+      // Unfiltered arrows for comparison
+      if (displayed.rawWrench) {
+        updateArrowHelper(
+          visual.rawForceArrow,
+          displayed.rawWrench.force,
+          forceLength(displayed.rawWrench.force),
+        );
+        updateArrowHelper(
+          visual.rawTorqueArrow,
+          displayed.rawWrench.torque,
+          torqueLength(displayed.rawWrench.torque),
+        );
+      }
+
+      // Reference as ghost arrows in the source colors, tracking error on top
+      if (reference) {
+        visual.referenceForceArrow.setColor(source.forceColor);
+        visual.referenceTorqueArrow.setColor(source.torqueColor);
+        updateArrowHelper(
+          visual.referenceForceArrow,
+          reference.force,
+          forceLength(reference.force),
+        );
+        updateArrowHelper(
+          visual.referenceTorqueArrow,
+          reference.torque,
+          torqueLength(reference.torque),
+        );
+      }
+      if (error) {
+        updateArrowHelper(
+          visual.errorForceArrow,
+          error.force,
+          forceLength(error.force),
+        );
+        updateArrowHelper(
+          visual.errorTorqueArrow,
+          error.torque,
+          torqueLength(error.torque),
+        );
+      }
+    });
+  }, [
+    state.sources,
+    state.filter.showRaw,
+    state.display.limits.warningColor,
+    state.display.limits.criticalColor,
+    state.display.scalingMode,
+    sceneWrenches,
+    sceneLimitResults,
+    sceneMaxima,
+  ]);
+
+  // Draw the line of action and contact marker of every source
+  const updateContactVisuals = useCallback(() => {
+    state.sources.forEach((source, index) => {
+      const visual = sensorVisualsRef.current[index];
+      const contact = sceneWrenches[index]?.contact;
+      if (!visual) {
+        return;
+      }
+
+      visual.lineOfAction.visible = contact != undefined;
+      visual.contactMarker.visible = contact?.contactPoint != undefined;
+      if (!contact) {
+        return;
+      }
+
+      const color = parseInt(source.contact.color.substring(1), 16);
+      (visual.lineOfAction.material as THREE.LineBasicMaterial).color.set(
+        color,
+      );
+      (visual.contactMarker.material as THREE.MeshBasicMaterial).color.set(
+        color,
+      );
+
+      // Center the drawn segment on the contact point when there is one
+      const anchorPoint = contact.contactPoint ?? contact.line.origin;
+      const anchor = toThreeVector(anchorPoint);
+      const direction = toThreeVector(contact.line.direction).multiplyScalar(
+        LINE_OF_ACTION_HALF_LENGTH,
+      );
+      visual.lineOfAction.geometry.setFromPoints([
+        anchor.clone().sub(direction),
+        anchor.clone().add(direction),
+      ]);
+      visual.contactMarker.position.copy(anchor);
+    });
+  }, [state.sources, sceneWrenches]);
+
+  // Draw every contact reported by contact sensor sources at its position
+  const updateContactPoints = useCallback(() => {
+    state.sources.forEach((source, index) => {
+      const visual = sensorVisualsRef.current[index];
+      if (!visual) {
+        return;
+      }
+      const contacts = source.showContacts
+        ? (sceneWrenches[index]?.contacts ?? [])
+        : [];
+      const maxima = sceneMaxima[index] ?? { force: 0, torque: 0 };
+
+      // Grow the pool as needed and hide the visuals of contacts that ended
+      while (visual.contactPoints.length < contacts.length) {
+        const contactPoint = createContactPointVisual();
+        visual.group.add(contactPoint.group);
+        visual.contactPoints.push(contactPoint);
+      }
+      visual.contactPoints.forEach((contactPoint, i) => {
+        const contact = contacts[i];
+        contactPoint.group.visible = contact != undefined;
+        if (!contact) {
+          return;
+        }
+        const { position, normal, force } = contact;
+        contactPoint.group.position.set(position.x, position.y, position.z);
+        (contactPoint.marker.material as THREE.MeshBasicMaterial).color.set(
+          source.contact.color,
+        );
+        contactPoint.normalArrow.setColor(source.contact.color);
+        contactPoint.normalArrow.visible = true;
+        updateArrowHelper(
+          contactPoint.normalArrow,
+          normal,
+          CONTACT_NORMAL_LENGTH,
+        );
+        contactPoint.forceArrow.visible =
+          source.showForce && magnitude(force) > 0;
+        contactPoint.forceArrow.setColor(source.forceColor);
+        updateArrowHelper(
+          contactPoint.forceArrow,
+          force,
+          arrowLength(
+            Math.hypot(force.x, force.y, force.z),
+            state.display.scalingMode,
+            source.forceScaleFactor,
+            maxima.force,
+          ),
+        );
+      });
+    });
+  }, [state.sources, state.display.scalingMode, sceneWrenches, sceneMaxima]);
+
+  // URDF from the configured source
+  const robotTopic =
+    state.robot.source === "topic" ? state.robot.topic : undefined;
+  const robotParameter =
+    state.robot.source === "parameter" ? state.robot.parameter : undefined;
+  const urdf =
+    state.robot.source === "string" ? state.robot.urdf : robotDescription;
+  const parsedRobot = useMemo(():
+    | { robot?: UrdfRobot; error?: string }
+    | undefined => {
+    if (!urdf) {
+      return undefined;
+    }
+    try {
+      return { robot: parseUrdf(urdf) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [urdf]);
+
+  // Pose of every robot link in the fixed frame, falling back to the joint origin of fixed joints
+  // when the link is not in the TF tree
+  const robotLinkPoses = useMemo(() => {
+    const poses = new Map<string, THREE.Matrix4 | undefined>();
+    const model = robotModel;
+    if (!model) {
+      return poses;
+    }
+    const resolve = (linkName: string): THREE.Matrix4 | undefined => {
+      if (poses.has(linkName)) {
+        return poses.get(linkName);
+      }
+      poses.set(linkName, undefined); // guards against joint cycles
+      const lookup = lookupTransform(state.data.fixedFrame, linkName);
+      let pose: THREE.Matrix4 | undefined;
+      if (lookup.transform) {
+        pose = transformToMatrix(lookup.transform);
+      } else {
+        const joint = model.parentJoints.get(linkName);
+        const parentPose =
+          joint?.type === "fixed" ? resolve(joint.parent) : undefined;
+        pose = parentPose?.clone().multiply(transformToMatrix(joint!.origin));
+      }
+      poses.set(linkName, pose);
+      return pose;
+    };
+    model.links.forEach((_group, linkName) => {
+      resolve(linkName);
+    });
+    return poses;
+  }, [robotModel, lookupTransform, state.data.fixedFrame]);
+
+  const robotErrors = useMemo(() => {
+    const errors: string[] = [];
+    if (parsedRobot?.error != undefined) {
+      errors.push(parsedRobot.error);
+    }
+    const missingLinks = Array.from(robotLinkPoses)
+      .filter(([, pose]) => !pose)
+      .map(([linkName]) => linkName);
+    if (missingLinks.length > 0) {
+      errors.push(
+        `No transform to ${state.data.fixedFrame} for ${missingLinks.join(", ")}`,
+      );
+    }
+    return [...errors, ...meshErrors];
+  }, [parsedRobot, robotLinkPoses, meshErrors, state.data.fixedFrame]);
+
+  // Resize handler
+  const handleResize = useCallback(() => {
+    if (!canvasRef.current || !rendererRef.current || !cameraRef.current) return;
+    
+    // Get the size of the parent container
+    const width = canvasRef.current.parentElement?.clientWidth || canvasRef.current.clientWidth;
     const height = canvasRef.current.parentElement?.clientHeight || canvasRef.current.clientHeight;
     
     // Update canvas size
@@ -552,14 +1764,262 @@ function WrenchPanel({ context }: { context: PanelExtensionContext }): JSX.Eleme
     // Updated camera aspect ratio
     cameraRef.current.aspect = width / height;
     cameraRef.current.updateProjectionMatrix();
-  }, []);
+    requestRender();
+  }, [requestRender]);
   // Update settings editor
   useEffect(() => {
     context.saveState(state);
 
-    const topicOptions = wrenchStampedTopics.map((topic) => ({ value: topic.name, label: topic.name }));
+    const topicOptions = wrenchTopics.map((topic) => ({
+      value: topic.name,
+      label: topic.name,
+    }));
     const frameOptions = availableFrames.map((frame) => ({ value: frame, label: frame }));
 
+    const sourceNodes: SettingsTreeChildren = {};
+    state.sources.forEach((source, index) => {
+      const bias = source.topic ? state.biases[source.topic] : undefined;
+      const errors = displayedWrenches[index]?.errors ?? [];
+      sourceNodes[String(index)] = {
+        label: source.label,
+        renamable: true,
+        visible: source.visible,
+        icon: "Topic",
+        error: errors.length > 0 ? errors.join("\n") : undefined,
+        actions: [
+          { type: "action", id: "tare", label: "Tare", icon: "Check" },
+          {
+            type: "action",
+            id: "clear-bias",
+            label: "Clear bias",
+            icon: "Clear",
+          },
+          { type: "divider" },
+          {
+            type: "action",
+            id: "remove-source",
+            label: "Remove source",
+            icon: "Delete",
+          },
+        ],
+        fields: {
+          topic: {
+            label: "Topic",
+            input: "select",
+            options: topicOptions,
+            value: source.topic,
+          },
+          displayFrame: {
+            label: "Display Frame",
+            input: "select",
+            options: [
+              { value: undefined, label: "Sensor frame" },
+              ...frameOptions,
+            ],
+            value: source.displayFrame,
+            help: "Frame the wrench is expressed in, including the moment arm of the force",
+          },
+          unstampedFrame: {
+            label: "Unstamped Frame",
+            input: "select",
+            options: [
+              { value: undefined, label: "Fixed frame" },
+              ...frameOptions,
+            ],
+            value: source.unstampedFrame,
+            help: "Frame of messages without a header, such as geometry_msgs/Wrench",
+          },
+          showForce: {
+            label: "Show Force",
+            input: "boolean",
+            value: source.showForce,
+          },
+          showTorque: {
+            label: "Show Torque",
+            input: "boolean",
+            value: source.showTorque,
+          },
+          showContacts: {
+            label: "Show Contacts",
+            input: "boolean",
+            value: source.showContacts,
+            help: "Draw the position, normal and force of every contact of a gazebo_msgs/ContactsState topic",
+          },
+          forceScaleFactor: {
+            label: "Force Scale Factor",
+            input: "number",
+            min: 0.0001,
+            step: 0.1,
+            value: source.forceScaleFactor,
+            help: SCALE_FACTOR_HELP[state.display.scalingMode],
+          },
+          torqueScaleFactor: {
+            label: "Torque Scale Factor",
+            input: "number",
+            min: 0.0001,
+            step: 0.1,
+            value: source.torqueScaleFactor,
+            help: SCALE_FACTOR_HELP[state.display.scalingMode],
+          },
+          forceColor: {
+            label: "Force Color",
+            input: "rgb",
+            value: source.forceColor,
+            hideClearButton: true,
+          },
+          torqueColor: {
+            label: "Torque Color",
+            input: "rgb",
+            value: source.torqueColor,
+            hideClearButton: true,
+          },
+          tareSamples: {
+            label: "Tare Samples",
+            input: "number",
+            min: 1,
+            step: 1,
+            precision: 0,
+            value: source.tareSamples,
+            help: "Number of recent samples averaged when taring",
+          },
+          bias: {
+            label: "Active Bias",
+            input: "string",
+            readonly: true,
+            value: bias ? formatWrench(bias) : "None",
+          },
+        },
+        children: {
+          reference: {
+            label: "Reference",
+            icon: "Timeline",
+            defaultExpansionState: "collapsed",
+            fields: {
+              topic: {
+                label: "Topic",
+                input: "select",
+                options: [{ value: undefined, label: "None" }, ...topicOptions],
+                value: source.reference.topic,
+                help: "Commanded wrench compared against this source",
+              },
+              transformToCommonFrame: {
+                label: "Common Frame",
+                input: "boolean",
+                value: source.reference.transformToCommonFrame,
+                help: "Express the reference in this source's display frame through TF before comparing",
+              },
+              showError: {
+                label: "Show Error",
+                input: "boolean",
+                value: source.reference.showError,
+              },
+            },
+          },
+          payload: {
+            label: "Payload",
+            icon: "PrecisionManufacturing",
+            defaultExpansionState: "collapsed",
+            fields: {
+              compensate: {
+                label: "Compensate Gravity",
+                input: "boolean",
+                value: source.payload.compensate,
+                help: "Show the wrench with the predicted payload weight removed instead of the raw wrench",
+              },
+              mass: {
+                label: "Mass (kg)",
+                input: "number",
+                min: 0,
+                step: 0.01,
+                value: source.payload.mass,
+              },
+              centerOfMass: {
+                label: "Center of Mass (m)",
+                input: "vec3",
+                labels: ["X", "Y", "Z"],
+                step: 0.01,
+                value: source.payload.centerOfMass,
+                help: "Payload center of mass in the sensor frame",
+              },
+            },
+          },
+          contact: {
+            label: "Contact",
+            icon: "Shapes",
+            defaultExpansionState: "collapsed",
+            fields: {
+              showLineOfAction: {
+                label: "Show Line of Action",
+                input: "boolean",
+                value: source.contact.showLineOfAction,
+              },
+              surface: {
+                label: "Contact Surface",
+                input: "select",
+                options: [
+                  { value: "none", label: "None" },
+                  { value: "plane", label: "Plane" },
+                  { value: "cylinder", label: "Cylinder" },
+                ],
+                value: source.contact.surface,
+                help: "Known surface in the sensor frame where the line of action meets the contact",
+              },
+              point:
+                source.contact.surface !== "none"
+                  ? {
+                      label:
+                        source.contact.surface === "plane"
+                          ? "Plane Point (m)"
+                          : "Axis Point (m)",
+                      input: "vec3",
+                      labels: ["X", "Y", "Z"],
+                      step: 0.001,
+                      value: source.contact.point,
+                    }
+                  : undefined,
+              direction:
+                source.contact.surface !== "none"
+                  ? {
+                      label:
+                        source.contact.surface === "plane"
+                          ? "Plane Normal"
+                          : "Axis Direction",
+                      input: "vec3",
+                      labels: ["X", "Y", "Z"],
+                      step: 0.1,
+                      value: source.contact.direction,
+                    }
+                  : undefined,
+              radius:
+                source.contact.surface === "cylinder"
+                  ? {
+                      label: "Radius (m)",
+                      input: "number",
+                      min: 0,
+                      step: 0.001,
+                      value: source.contact.radius,
+                    }
+                  : undefined,
+              minForce: {
+                label: "Min Force (N)",
+                input: "number",
+                min: 0,
+                step: 0.1,
+                value: source.contact.minForce,
+                help: "The line of action is undefined for small forces and is hidden below this magnitude",
+              },
+              color: {
+                label: "Color",
+                input: "rgb",
+                value: source.contact.color,
+                hideClearButton: true,
+              },
+            },
+          },
+        },
+      };
+    });
+
     context.updatePanelSettingsEditor({
       actionHandler,
       nodes: {
@@ -569,62 +2029,172 @@ function WrenchPanel({ context }: { context: PanelExtensionContext }): JSX.Eleme
           visible: state.data.visible,
           icon: "Cube",
           fields: {
-            topic: {
-              label: "Topic",
-              input: "select",
-              options: topicOptions,
-              value: state.data.topic,
-            },
             fixedFrame: {
               label: "Fixed Frame",
               input: "select",
               options: frameOptions,
               value: state.data.fixedFrame,
             },
+            tfBufferDuration: {
+              label: "TF Buffer (s)",
+              input: "number",
+              min: 0.1,
+              step: 1,
+              value: state.data.tfBufferDuration,
+              help: "History kept per transform for lookups at the wrench message stamp",
+            },
+            tfTolerance: {
+              label: "TF Tolerance (s)",
+              input: "number",
+              min: 0,
+              step: 0.05,
+              value: state.data.tfTolerance,
+              help: "How far a wrench stamp may be ahead of the latest transform; the latest transform is used within it",
+            },
+            preload: {
+              label: "Preload Wrench History",
+              input: "boolean",
+              value: state.data.preload,
+              help: "Load every message of the source topics so the plot and statistics are filled right after a seek; statistics since a seek then start at the beginning of the data",
+            },
+            gravity: {
+              label: "Gravity (m/s²)",
+              input: "vec3",
+              labels: ["X", "Y", "Z"],
+              step: 0.01,
+              value: state.data.gravity,
+              help: "Gravity vector in the fixed frame, used for payload compensation",
+            },
           },
         },
-        display: {
-          label: "Display",
-          icon: "Shapes",
+        sources: {
+          label: "Wrench Sources",
+          icon: "Topic",
+          actions: [
+            {
+              type: "action",
+              id: "add-source",
+              label: "Add source",
+              icon: "Add",
+            },
+          ],
+          children: sourceNodes,
+        },
+        filter: {
+          label: "Filter",
+          icon: "Settings",
           fields: {
-            showForce: {
-              label: "Show Force",
-              input: "boolean",
-              value: state.display.showForce,
+            type: {
+              label: "Type",
+              input: "select",
+              options: [
+                { value: "none", label: "None" },
+                { value: "movingAverage", label: "Moving average" },
+                { value: "lowPass", label: "Exponential low-pass" },
+                { value: "median", label: "Median" },
+                { value: "deadband", label: "Deadband" },
+              ],
+              value: state.filter.type,
             },
-            showTorque: {
-              label: "Show Torque",
+            windowSize:
+              state.filter.type === "movingAverage" ||
+              state.filter.type === "median"
+                ? {
+                    label: "Window (samples)",
+                    input: "number",
+                    min: 1,
+                    step: 1,
+                    precision: 0,
+                    value: state.filter.windowSize,
+                  }
+                : undefined,
+            cutoffFrequency:
+              state.filter.type === "lowPass"
+                ? {
+                    label: "Cutoff (Hz)",
+                    input: "number",
+                    min: 0.01,
+                    step: 0.5,
+                    value: state.filter.cutoffFrequency,
+                  }
+                : undefined,
+            forceDeadband:
+              state.filter.type === "deadband"
+                ? {
+                    label: "Force Deadband (N)",
+                    input: "number",
+                    min: 0,
+                    step: 0.1,
+                    value: state.filter.forceDeadband,
+                  }
+                : undefined,
+            torqueDeadband:
+              state.filter.type === "deadband"
+                ? {
+                    label: "Torque Deadband (N·m)",
+                    input: "number",
+                    min: 0,
+                    step: 0.01,
+                    value: state.filter.torqueDeadband,
+                  }
+                : undefined,
+            showRaw: {
+              label: "Show Raw Arrows",
               input: "boolean",
-              value: state.display.showTorque,
+              value: state.filter.showRaw,
+              disabled: state.filter.type === "none",
             },
-            forceScaleFactor: {
-              label: "Force Scale Factor",
-              input: "number",
-              min: 0.01,
-              max: 10,
-              step: 0.1,
-              value: state.display.forceScaleFactor,
+          },
+        },
+        plot: {
+          label: "Plot",
+          icon: "Timeline",
+          visible: state.plot.visible,
+          fields: {
+            sourceIndex: {
+              label: "Source",
+              input: "select",
+              options: state.sources.map((source, index) => ({
+                value: index,
+                label: source.label,
+              })),
+              value: state.plot.sourceIndex,
             },
-            torqueScaleFactor: {
-              label: "Torque Scale Factor",
+            timeWindow: {
+              label: "Time Window (s)",
               input: "number",
-              min: 0.01,
-              max: 10,
-              step: 0.1,
-              value: state.display.torqueScaleFactor,
+              min: 0.5,
+              step: 1,
+              value: state.plot.timeWindow,
             },
-            forceColor: {
-              label: "Force Color",
-              input: "rgb",
-              value: state.display.forceColor,
-              hideClearButton: true,
+            height: {
+              label: "Height (px)",
+              input: "number",
+              min: 60,
+              step: 20,
+              value: state.plot.height,
             },
-            torqueColor: {
-              label: "Torque Color",
-              input: "rgb",
-              value: state.display.torqueColor,
-              hideClearButton: true,
+          },
+          children: {
+            series: {
+              label: "Series",
+              fields: Object.fromEntries(
+                WRENCH_CHANNELS.map((series) => [
+                  series.key,
+                  {
+                    label: series.label,
+                    input: "boolean",
+                    value: state.plot.series[series.key],
+                  },
+                ]),
+              ),
             },
+          },
+        },
+        display: {
+          label: "Display",
+          icon: "Shapes",
+          fields: {
             gridVisible: {
               label: "Show Grid",
               input: "boolean",
@@ -641,11 +2211,466 @@ function WrenchPanel({ context }: { context: PanelExtensionContext }): JSX.Eleme
               value: state.display.gridColor,
               hideClearButton: true,
             },
+            scalingMode: {
+              label: "Arrow Scaling",
+              input: "select",
+              options: [
+                { value: "linear", label: "Linear" },
+                { value: "log", label: "Logarithmic" },
+                { value: "normalized", label: "Normalized length, color" },
+                { value: "autoFit", label: "Auto-fit to recent maximum" },
+              ],
+              value: state.display.scalingMode,
+            },
+            forceUnit: {
+              label: "Force Unit",
+              input: "select",
+              options: Object.keys(FORCE_UNITS).map((unit) => ({
+                value: unit,
+                label: unit,
+              })),
+              value: state.display.forceUnit,
+            },
+            torqueUnit: {
+              label: "Torque Unit",
+              input: "select",
+              options: Object.keys(TORQUE_UNITS).map((unit) => ({
+                value: unit,
+                label: unit,
+              })),
+              value: state.display.torqueUnit,
+            },
+          },
+          children: {
+            limits: {
+              label: "Limits",
+              icon: "Flag",
+              defaultExpansionState: "collapsed",
+              fields: {
+                enabled: {
+                  label: "Enabled",
+                  input: "boolean",
+                  value: state.display.limits.enabled,
+                },
+                warningColor: {
+                  label: "Warning Color",
+                  input: "rgb",
+                  value: state.display.limits.warningColor,
+                  hideClearButton: true,
+                },
+                criticalColor: {
+                  label: "Critical Color",
+                  input: "rgb",
+                  value: state.display.limits.criticalColor,
+                  hideClearButton: true,
+                },
+              },
+              children: Object.fromEntries(
+                WRENCH_CHANNELS.map(({ key, label, isForce }) => [
+                  key,
+                  {
+                    label,
+                    defaultExpansionState: "collapsed",
+                    fields: {
+                      warning: {
+                        label: `Warning (${isForce ? "N" : "N·m"})`,
+                        input: "number",
+                        min: 0,
+                        value: state.display.limits.channels[key].warning,
+                      },
+                      critical: {
+                        label: `Critical (${isForce ? "N" : "N·m"})`,
+                        input: "number",
+                        min: 0,
+                        value: state.display.limits.channels[key].critical,
+                      },
+                    },
+                  },
+                ]),
+              ),
+            },
+          },
+        },
+        command: {
+          label: "Command",
+          icon: "Move",
+          defaultExpansionState: "collapsed",
+          error:
+            state.command.enabled && !context.publish
+              ? "Publishing is not supported by this data source"
+              : undefined,
+          actions: [
+            { type: "action", id: "command-publish", label: "Publish" },
+            { type: "action", id: "command-zero", label: "Zero" },
+          ],
+          fields: {
+            enabled: {
+              label: "Enabled",
+              input: "boolean",
+              value: state.command.enabled,
+              help: "Drag the force handle and torque rings on the sensor to build a command",
+            },
+            topic: {
+              label: "Topic",
+              input: "string",
+              value: state.command.topic,
+              // Every keystroke updates the field, so the topic is only advertised once commanding
+              // is enabled and stays fixed until it is disabled again
+              readonly: state.command.enabled,
+              help: state.command.enabled
+                ? "Disable commanding to change the topic"
+                : undefined,
+            },
+            sourceIndex: {
+              label: "Sensor",
+              input: "select",
+              options: state.sources.map((source, index) => ({
+                value: index,
+                label: source.label,
+              })),
+              value: state.command.sourceIndex,
+            },
+            publishMode: {
+              label: "Publish",
+              input: "select",
+              options: [
+                { value: "once", label: "On release" },
+                { value: "rate", label: "At a fixed rate" },
+              ],
+              value: state.command.publishMode,
+            },
+            rate:
+              state.command.publishMode === "rate"
+                ? {
+                    label: "Rate (Hz)",
+                    input: "number",
+                    min: 0.1,
+                    step: 1,
+                    value: state.command.rate,
+                  }
+                : undefined,
+            forceClamp: {
+              label: "Force Clamp (N)",
+              input: "vec3",
+              labels: ["X", "Y", "Z"],
+              min: 0,
+              value: state.command.forceClamp,
+            },
+            torqueClamp: {
+              label: "Torque Clamp (N·m)",
+              input: "vec3",
+              labels: ["X", "Y", "Z"],
+              min: 0,
+              step: 0.1,
+              value: state.command.torqueClamp,
+            },
+            torqueGain: {
+              label: "Torque per Turn (N·m/rad)",
+              input: "number",
+              min: 0,
+              step: 0.1,
+              value: state.command.torqueGain,
+            },
+          },
+        },
+        statistics: {
+          label: "Statistics",
+          icon: "Addchart",
+          visible: state.statistics.visible,
+          defaultExpansionState: "collapsed",
+          fields: {
+            sourceIndex: {
+              label: "Source",
+              input: "select",
+              options: state.sources.map((source, index) => ({
+                value: index,
+                label: source.label,
+              })),
+              value: state.statistics.sourceIndex,
+            },
+            mode: {
+              label: "Range",
+              input: "select",
+              options: [
+                { value: "window", label: "Sliding window" },
+                { value: "all", label: "Since reset or seek" },
+              ],
+              value: state.statistics.mode,
+              help: "Samples are bias-free and filtered, in the sensor frame before payload compensation, so they can differ from the displayed wrench",
+            },
+            window:
+              state.statistics.mode === "window"
+                ? {
+                    label: "Window (s)",
+                    input: "number",
+                    min: 0.1,
+                    step: 1,
+                    value: state.statistics.window,
+                  }
+                : undefined,
+          },
+        },
+        diagnostics: {
+          label: "Diagnostics",
+          icon: "Clock",
+          defaultExpansionState: "collapsed",
+          fields: {
+            staleTimeout: {
+              label: "Stale After (s)",
+              input: "number",
+              min: 0.01,
+              step: 0.5,
+              value: state.diagnostics.staleTimeout,
+              help: "Arrows of a source fade when its latest message is older than this",
+            },
+            showTfTree: {
+              label: "Show TF Tree",
+              input: "boolean",
+              value: state.diagnostics.showTfTree,
+            },
+          },
+        },
+        export: {
+          label: "CSV Export",
+          icon: "Share",
+          defaultExpansionState: "collapsed",
+          actions: [{ type: "action", id: "export-csv", label: "Export CSV" }],
+          fields: {
+            sourceIndex: {
+              label: "Source",
+              input: "select",
+              options: state.sources.map((source, index) => ({
+                value: index,
+                label: source.label,
+              })),
+              value: state.export.sourceIndex,
+            },
+            start: {
+              label: "Start (s)",
+              input: "number",
+              min: 0,
+              step: 1,
+              placeholder: "Start of playback",
+              value: state.export.start,
+              help: "Seconds from the start of playback",
+            },
+            end: {
+              label: "End (s)",
+              input: "number",
+              min: 0,
+              step: 1,
+              placeholder: "End of playback",
+              value: state.export.end,
+              help: "Seconds from the start of playback",
+            },
+            status: {
+              label: "Status",
+              input: "string",
+              readonly: true,
+              value: context.UNSTABLE_subscribeMessageRange
+                ? (exportStatus ?? "Idle")
+                : "Not supported by this data source",
+            },
+          },
+        },
+        camera: {
+          label: "Camera",
+          icon: "Camera",
+          defaultExpansionState: "collapsed",
+          actions: [
+            { type: "action", id: "camera-top", label: "Top view" },
+            { type: "action", id: "camera-front", label: "Front view" },
+            { type: "action", id: "camera-side", label: "Side view" },
+            { type: "divider" },
+            { type: "action", id: "camera-reset", label: "Reset view" },
+          ],
+          fields: {
+            mode: {
+              label: "Mode",
+              input: "select",
+              options: [
+                { value: "orbit", label: "Orbit fixed frame" },
+                { value: "follow", label: "Follow sensor" },
+              ],
+              value: state.camera.mode,
+            },
+            followSourceIndex:
+              state.camera.mode === "follow"
+                ? {
+                    label: "Sensor",
+                    input: "select",
+                    options: state.sources.map((source, index) => ({
+                      value: index,
+                      label: source.label,
+                    })),
+                    value: state.camera.followSourceIndex,
+                  }
+                : undefined,
+          },
+        },
+        robot: {
+          label: "Robot Model",
+          icon: "PrecisionManufacturing",
+          visible: state.robot.visible,
+          defaultExpansionState: "collapsed",
+          error: robotErrors.length > 0 ? robotErrors.join("\n") : undefined,
+          actions: [
+            {
+              type: "action",
+              id: "load-urdf-file",
+              label: "Load URDF file",
+              icon: "Add",
+            },
+          ],
+          fields: {
+            source: {
+              label: "Source",
+              input: "select",
+              options: [
+                { value: "topic", label: "Topic" },
+                { value: "parameter", label: "Parameter" },
+                { value: "string", label: "URDF string" },
+              ],
+              value: state.robot.source,
+            },
+            topic:
+              state.robot.source === "topic"
+                ? {
+                    label: "Topic",
+                    input: "autocomplete",
+                    items: stringTopics.map((topic) => topic.name),
+                    value: state.robot.topic,
+                  }
+                : undefined,
+            parameter:
+              state.robot.source === "parameter"
+                ? {
+                    label: "Parameter",
+                    input: "string",
+                    value: state.robot.parameter,
+                  }
+                : undefined,
+            urdf:
+              state.robot.source === "string"
+                ? {
+                    label: "URDF",
+                    input: "string",
+                    value: state.robot.urdf,
+                    help: "Paste a URDF document or use the Load URDF file action",
+                  }
+                : undefined,
+            packageUrl: {
+              label: "Package URL",
+              input: "string",
+              placeholder: "http://localhost:8000",
+              value: state.robot.packageUrl,
+              help: "Base URL that package:// mesh paths are resolved against",
+            },
+            opacity: {
+              label: "Opacity",
+              input: "number",
+              min: 0,
+              max: 1,
+              step: 0.1,
+              value: state.robot.opacity,
+            },
+          },
+        },
+        tf: {
+          label: "TF Frames",
+          icon: "World",
+          visible: state.tf.visible,
+          defaultExpansionState: "collapsed",
+          fields: {
+            scale: {
+              label: "Axis Length (m)",
+              input: "number",
+              min: 0.01,
+              step: 0.05,
+              value: state.tf.scale,
+            },
+            showLabels: {
+              label: "Show Labels",
+              input: "boolean",
+              value: state.tf.showLabels,
+            },
+            showLinks: {
+              label: "Show Parent Links",
+              input: "boolean",
+              value: state.tf.showLinks,
+            },
+          },
+          children: {
+            frames: {
+              label: "Frames",
+              defaultExpansionState: "collapsed",
+              children: Object.fromEntries(
+                tfFrames.map((frame) => [
+                  frame.frameId,
+                  {
+                    label: frame.frameId,
+                    visible: state.tf.frames[frame.frameId] ?? true,
+                  },
+                ]),
+              ),
+            },
+          },
+        },
+        trail: {
+          label: "Force Trail",
+          icon: "Points",
+          visible: state.trail.visible,
+          defaultExpansionState: "collapsed",
+          fields: {
+            duration: {
+              label: "Duration (s)",
+              input: "number",
+              min: 0.1,
+              step: 0.5,
+              value: state.trail.duration,
+            },
+            fade: {
+              label: "Fade",
+              input: "boolean",
+              value: state.trail.fade,
+            },
+            heatMap: {
+              label: "Direction Heat Map",
+              input: "boolean",
+              value: state.trail.heatMap,
+              help: "Sphere colored by how often the force pointed each way over the buffered history",
+            },
+            heatMapRadius: {
+              label: "Heat Map Radius (m)",
+              input: "number",
+              min: 0.01,
+              step: 0.05,
+              value: state.trail.heatMapRadius,
+            },
+            minForce: {
+              label: "Heat Map Min Force (N)",
+              input: "number",
+              min: 0,
+              step: 0.1,
+              value: state.trail.minForce,
+              help: "Weaker forces have no reliable direction and are left out",
+            },
           },
         },
       },
     });
-  }, [context, actionHandler, state, wrenchStampedTopics, availableFrames]);
+  }, [
+    context,
+    actionHandler,
+    state,
+    wrenchTopics,
+    stringTopics,
+    availableFrames,
+    tfFrames,
+    displayedWrenches,
+    robotErrors,
+    exportStatus,
+  ]);
 
   // Initialize Three.js
   useEffect(() => {
@@ -665,9 +2690,14 @@ function WrenchPanel({ context }: { context: PanelExtensionContext }): JSX.Eleme
     return () => {
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current);
+        animationFrameRef.current = 0;
       }
       window.removeEventListener("resize", handleResize);
       resizeObserver.disconnect();
+      controlsRef.current?.dispose();
+      if (sceneRef.current) {
+        disposeObject(sceneRef.current);
+      }
       if (rendererRef.current) {
         rendererRef.current.dispose();
       }
@@ -675,17 +2705,305 @@ function WrenchPanel({ context }: { context: PanelExtensionContext }): JSX.Eleme
   }, [setupScene, handleResize]);
 
 
+  // Restart the filter stage when its configuration or the biases it works on change
+  useEffect(() => {
+    filtersRef.current.clear();
+    setFilteredWrenches(new Map());
+  }, [state.filter, state.biases]);
+
+  // Apply the TF buffer window and extrapolation tolerance
+  useEffect(() => {
+    tfBufferRef.current.cacheDuration = state.data.tfBufferDuration * 1e9;
+    tfBufferRef.current.extrapolationTolerance = state.data.tfTolerance * 1e9;
+    setTfVersion((version) => version + 1);
+  }, [state.data.tfBufferDuration, state.data.tfTolerance]);
+
+  // Add or remove sensor groups when the source list changes
+  useEffect(() => {
+    syncSensorVisuals();
+  }, [setupScene, syncSensorVisuals]);
+
   // Update visualization when message or settings change
   useEffect(() => {
     updateArrows();
-  }, [updateArrows]);
+  }, [setupScene, updateArrows]);
+
+  // Fade the measured arrows of stale sources; also runs after arrow updates so new sensor groups
+  // pick up the fade
+  useEffect(() => {
+    if (viewPaused) {
+      return;
+    }
+    staleSources.forEach((stale, index) => {
+      const visual = sensorVisualsRef.current[index];
+      if (!visual) {
+        return;
+      }
+      [
+        visual.forceArrow,
+        visual.torqueArrow,
+        visual.torqueRotationIndicator,
+        visual.rawForceArrow,
+        visual.rawTorqueArrow,
+      ].forEach((object) => {
+        setObjectOpacity(object, stale ? STALE_ARROW_OPACITY : 1);
+      });
+    });
+  }, [staleSources, updateArrows, viewPaused]);
+
+  // Update line of action and contact point
+  useEffect(() => {
+    updateContactVisuals();
+  }, [setupScene, updateContactVisuals]);
+
+  // Update contacts reported by contact sensors
+  useEffect(() => {
+    updateContactPoints();
+  }, [setupScene, updateContactPoints]);
+
+  // Build the robot model when the description changes
+  useEffect(() => {
+    const scene = sceneRef.current;
+    const robot = parsedRobot?.robot;
+    if (!scene || !robot) {
+      return;
+    }
+    setMeshErrors([]);
+    const model = createRobotModel(robot, {
+      packageUrl: state.robot.packageUrl,
+      opacity: state.robot.opacity,
+      onError: (error) => {
+        setMeshErrors((prev) => [...prev, error]);
+      },
+      onLoad: requestRender,
+    });
+    scene.add(model.group);
+    setRobotModel(model);
+    return () => {
+      scene.remove(model.group);
+      model.dispose();
+      setRobotModel(undefined);
+    };
+  }, [
+    setupScene,
+    parsedRobot,
+    state.robot.packageUrl,
+    state.robot.opacity,
+    requestRender,
+  ]);
+
+  // Pose the robot links through the TF tree
+  useEffect(() => {
+    if (!robotModel) {
+      return;
+    }
+    robotModel.group.visible = state.robot.visible;
+    // Links keep their poses while the view is paused
+    if (viewPaused) {
+      return;
+    }
+    robotModel.links.forEach((group, linkName) => {
+      const pose = robotLinkPoses.get(linkName);
+      group.visible = pose != undefined;
+      if (pose) {
+        pose.decompose(group.position, group.quaternion, group.scale);
+      }
+    });
+  }, [robotModel, robotLinkPoses, state.robot.visible, viewPaused]);
+
+  // Drop the description of the previous topic or parameter
+  useEffect(() => {
+    setRobotDescription(undefined);
+  }, [robotTopic, robotParameter]);
+
+  // Apply the saved camera pose relative to the orbit or follow anchor
+  useEffect(() => {
+    const camera = cameraRef.current;
+    const controls = controlsRef.current;
+    if (!camera || !controls) {
+      return;
+    }
+    const followIndex =
+      state.camera.mode === "follow"
+        ? state.camera.followSourceIndex
+        : undefined;
+    followSourceIndexRef.current = followIndex;
+    const followed =
+      followIndex != undefined
+        ? sensorVisualsRef.current[followIndex]?.group.position
+        : undefined;
+    const anchor = cameraAnchorRef.current;
+    anchor.copy(followed ?? new THREE.Vector3());
+    camera.position.set(...state.camera.position).add(anchor);
+    controls.target.set(...state.camera.target).add(anchor);
+    controls.update();
+  }, [
+    setupScene,
+    state.camera.mode,
+    state.camera.followSourceIndex,
+    state.camera.position,
+    state.camera.target,
+  ]);
+
+  // Add the TF frames display to each new scene
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene) {
+      return;
+    }
+    const display = new TFFramesDisplay();
+    scene.add(display.group);
+    setTfFramesDisplay(display);
+    return () => {
+      display.dispose();
+      setTfFramesDisplay(undefined);
+    };
+  }, [setupScene]);
+
+  // Pose every shown frame in the fixed frame at the latest transforms
+  useEffect(() => {
+    if (!tfFramesDisplay) {
+      return;
+    }
+    tfFramesDisplay.group.visible = state.tf.visible;
+    // Frames keep their poses while the view is paused
+    if (!state.tf.visible || viewPaused) {
+      return;
+    }
+    tfFramesDisplay.update(
+      tfFrames
+        .filter((frame) => state.tf.frames[frame.frameId] ?? true)
+        .map((frame) => ({
+          frameId: frame.frameId,
+          parentFrameId: frame.parentFrameId,
+          transform: lookupTransform(state.data.fixedFrame, frame.frameId)
+            .transform,
+        })),
+      {
+        scale: state.tf.scale,
+        showLabels: state.tf.showLabels,
+        showLinks: state.tf.showLinks,
+      },
+    );
+  }, [
+    tfFramesDisplay,
+    tfFrames,
+    lookupTransform,
+    state.tf,
+    state.data.fixedFrame,
+    viewPaused,
+  ]);
+
+  // Create the command gizmo while commanding is enabled
+  const commandEnabled = state.command.enabled;
+  const commandPublishMode = state.command.publishMode;
+  useEffect(() => {
+    const camera = cameraRef.current;
+    const controls = controlsRef.current;
+    const canvas = canvasRef.current;
+    if (!commandEnabled || !camera || !controls || !canvas) {
+      return;
+    }
+    const gizmo = new WrenchCommandGizmo({
+      camera,
+      domElement: canvas,
+      controls,
+      options: {
+        scalingMode: "linear",
+        forceScale: 1,
+        recentMax: 0,
+        torqueGain: 1,
+        forceClamp: [0, 0, 0],
+        torqueClamp: [0, 0, 0],
+      },
+    });
+    setCommandWrench(ZERO_WRENCH);
+    setCommandGizmo(gizmo);
+    return () => {
+      gizmo.dispose();
+      setCommandGizmo(undefined);
+    };
+  }, [setupScene, commandEnabled]);
+
+  // Follow the drag and publish on release in "once" mode
+  useEffect(() => {
+    if (!commandGizmo) {
+      return;
+    }
+    commandGizmo.onChange = (wrench, { final }) => {
+      setCommandWrench(wrench);
+      if (final && commandPublishMode === "once") {
+        publishCommand(wrench);
+      }
+    };
+  }, [commandGizmo, commandPublishMode, publishCommand]);
+
+  // Attach the gizmo to the selected sensor and apply its drag settings
+  const commandMaxForce = sceneMaxima[state.command.sourceIndex]?.force ?? 0;
+  useEffect(() => {
+    if (!commandGizmo) {
+      return;
+    }
+    sensorVisualsRef.current[state.command.sourceIndex]?.group.add(
+      commandGizmo.group,
+    );
+    commandGizmo.setOptions({
+      scalingMode: state.display.scalingMode,
+      forceScale: commandSource?.forceScaleFactor ?? 1,
+      recentMax: commandMaxForce,
+      torqueGain: state.command.torqueGain,
+      forceClamp: state.command.forceClamp,
+      torqueClamp: state.command.torqueClamp,
+    });
+  }, [
+    commandGizmo,
+    state.display.scalingMode,
+    commandSource?.forceScaleFactor,
+    commandMaxForce,
+    state.sources.length,
+    state.command.sourceIndex,
+    state.command.torqueGain,
+    state.command.forceClamp,
+    state.command.torqueClamp,
+  ]);
+
+  // Advertise the command topic while commanding is enabled
+  useEffect(() => {
+    if (!commandTopic || !context.advertise) {
+      return;
+    }
+    context.advertise(commandTopic, commandSchemaName);
+    return () => {
+      context.unadvertise?.(commandTopic);
+    };
+  }, [context, commandTopic, commandSchemaName]);
+
+  // Publish the current command at a fixed rate
+  const commandRate = state.command.rate;
+  useEffect(() => {
+    if (!commandTopic || commandPublishMode !== "rate" || commandRate <= 0) {
+      return;
+    }
+    const interval = setInterval(() => {
+      publishCommand(commandWrench);
+    }, 1000 / commandRate);
+    return () => {
+      clearInterval(interval);
+    };
+  }, [
+    commandTopic,
+    commandPublishMode,
+    commandRate,
+    commandWrench,
+    publishCommand,
+  ]);
 
-  // Update sensor position when TF data or sensor frame changes
+  // Update sensor positions when TF data or sensor frames change
   useEffect(() => {
-    updateSensorPosition();
-  }, [updateSensorPosition]);
+    updateSensorPositions();
+  }, [setupScene, updateSensorPositions]);
 
-  // Update grid and axes visibility
+  // Update grid and axes visibility, also for a newly created scene
   useEffect(() => {
     if (!sceneRef.current) return;
 
@@ -697,55 +3015,259 @@ function WrenchPanel({ context }: { context: PanelExtensionContext }): JSX.Eleme
         child.visible = state.display.axesVisible;
       }
     });
-  }, [state.display.gridVisible, state.display.axesVisible]);
+  }, [setupScene, state.display.gridVisible, state.display.axesVisible]);
 
   // Subscribe to topics
   useEffect(() => {
-    const subscriptions = [];
+    const subscriptions: Subscription[] = [];
     
-    // Subscribe to wrench topic if selected
-    if (state.data.topic) {
-      subscriptions.push({ topic: state.data.topic });
-    }
+    // Subscribe to the wrench topic of every source
+    sourceTopics.forEach((topic) => {
+      subscriptions.push({ topic, preload: state.data.preload });
+    });
     
     // Subscribe to TF topics
     tfTopics.forEach(topic => {
       subscriptions.push({ topic: topic.name });
     });
+
+    // Subscribe to the reference wrench topics
+    referenceTopics.forEach((topic) => {
+      subscriptions.push({ topic });
+    });
+
+    if (robotTopic) {
+      subscriptions.push({ topic: robotTopic });
+    }
     
     if (subscriptions.length > 0) {
       context.subscribe(subscriptions);
     }
-  }, [context, state.data.topic, tfTopics]);
+  }, [
+    context,
+    sourceTopics,
+    referenceTopics,
+    tfTopics,
+    robotTopic,
+    state.data.preload,
+  ]);
 
-  // Select default topic
+  // Select default topic for a lone unconfigured source
   useEffect(() => {
-    if (state.data.topic === undefined && wrenchStampedTopics.length > 0) {
-      setState(produce((draft) => {
-        draft.data.topic = wrenchStampedTopics[0]?.name;
-      }));
+    if (
+      state.sources.length === 1 &&
+      state.sources[0]?.topic == undefined &&
+      wrenchTopics.length > 0
+    ) {
+      setState(
+        produce((draft) => {
+          draft.sources[0]!.topic = wrenchTopics[0]?.name;
+        }),
+      );
     }
-  }, [state.data.topic, wrenchStampedTopics]);
+  }, [state.sources, wrenchTopics]);
 
   useEffect(() => {
     if (!sceneRef.current || !gridHelperRef.current) return;
   
     sceneRef.current.remove(gridHelperRef.current);
+    gridHelperRef.current.dispose();
     
+    gridColorRef.current = state.display.gridColor;
     const gridColor = parseInt(state.display.gridColor.substring(1), 16);
     const newGridHelper = new THREE.GridHelper(10, 10, gridColor, gridColor);
     newGridHelper.rotation.x = Math.PI / 2;
-    newGridHelper.visible = state.display.gridVisible;
+    newGridHelper.visible = gridHelperRef.current.visible;
     sceneRef.current.add(newGridHelper);
     gridHelperRef.current = newGridHelper;
     
   }, [state.display.gridColor]);
 
+  const alarmColor =
+    alarmLevel === "critical"
+      ? state.display.limits.criticalColor
+      : alarmLevel === "warning"
+        ? state.display.limits.warningColor
+        : undefined;
+
+  // History covers both the plot and the statistics window
+  const historyWindow = Math.max(
+    state.plot.timeWindow,
+    state.statistics.window,
+  );
+  const plotTopic = state.sources[state.plot.sourceIndex]?.topic;
+  const plotBias = plotTopic ? state.biases[plotTopic] : undefined;
+
+  const filterConfig = state.filter;
+  const biases = state.biases;
+  const fixedFrame = state.data.fixedFrame;
+  const preload = state.data.preload;
+  const sources = state.sources;
+  const gravity = state.data.gravity;
+  const limits = state.display.limits;
+
+  // Plot history, filtered or with the active bias removed; recomputed as new messages arrive
+  const plotSamples = useMemo(() => {
+    void messages;
+    const history = plotTopic ? (historyRef.current.get(plotTopic) ?? []) : [];
+    return history.map(
+      (sample): WrenchSample => ({
+        time: sample.time,
+        wrench:
+          sample.filtered ??
+          (plotBias ? subtractWrench(sample.wrench, plotBias) : sample.wrench),
+      }),
+    );
+  }, [messages, plotTopic, plotBias]);
+
+  // Trails and heat maps cover the buffered history or the trail duration, whichever is longer
+  const trailWindow = Math.max(historyWindow, state.trail.duration);
+
+  // Draw the trail of past force arrow tips and the direction heat map in each sensor group
+  useEffect(() => {
+    state.sources.forEach((source, index) => {
+      const visual = sensorVisualsRef.current[index];
+      if (!visual) {
+        return;
+      }
+      visual.trail.visible = state.trail.visible && source.showForce;
+      visual.heatMap.visible = state.trail.visible && state.trail.heatMap;
+      // Both keep what they showed while the view is paused
+      const samples = trailsRef.current[index] ?? [];
+      const latest = samples[samples.length - 1];
+      if (viewPaused || !latest) {
+        return;
+      }
+
+      if (visual.trail.visible) {
+        const maxima = sceneMaxima[index] ?? { force: 0, torque: 0 };
+        updateTrail(visual.trail, samples, {
+          now: currentTime ?? latest.time,
+          duration: state.trail.duration,
+          fade: state.trail.fade,
+          color: new THREE.Color(source.forceColor),
+          tip: (force) => {
+            const direction = toThreeVector(force);
+            const length = arrowLength(
+              direction.length(),
+              state.display.scalingMode,
+              source.forceScaleFactor,
+              maxima.force,
+            );
+            return direction.lengthSq() > 0
+              ? direction.normalize().multiplyScalar(length)
+              : direction;
+          },
+        });
+      }
+      if (visual.heatMap.visible) {
+        visual.heatMap.scale.setScalar(state.trail.heatMapRadius);
+        updateDirectionHeatMap(
+          visual.heatMap,
+          samples.map((sample) => sample.force),
+          state.trail.minForce,
+        );
+      }
+    });
+  }, [
+    setupScene,
+    state.sources,
+    state.trail,
+    state.display.scalingMode,
+    displayedWrenches,
+    sceneMaxima,
+    currentTime,
+    viewPaused,
+  ]);
+
+  // Statistics of the selected source over the sliding window or since the last reset or seek. They
+  // are taken from the filtered sensor-frame samples the plot shows, not the displayed wrench.
+  const statisticsTopic = state.sources[state.statistics.sourceIndex]?.topic;
+  const statisticsBias = statisticsTopic
+    ? state.biases[statisticsTopic]
+    : undefined;
+  const statisticsMode = state.statistics.mode;
+  const statisticsWindow = state.statistics.window;
+  const statistics = useMemo(() => {
+    void messages;
+    if (!statisticsTopic) {
+      return undefined;
+    }
+    if (statisticsMode === "all") {
+      return statisticsRef.current.get(statisticsTopic)?.result();
+    }
+    const history = historyRef.current.get(statisticsTopic) ?? [];
+    const oldestTime = Math.max(
+      (history[history.length - 1]?.time ?? 0) - statisticsWindow,
+      statisticsResetTime,
+    );
+    const windowStatistics = new WrenchStatistics();
+    history.forEach((sample) => {
+      if (sample.time > oldestTime) {
+        windowStatistics.add(
+          sample.time,
+          sample.filtered ??
+            (statisticsBias
+              ? subtractWrench(sample.wrench, statisticsBias)
+              : sample.wrench),
+        );
+      }
+    });
+    return windowStatistics.result();
+  }, [
+    messages,
+    statisticsTopic,
+    statisticsBias,
+    statisticsMode,
+    statisticsWindow,
+    statisticsResetTime,
+  ]);
+
+  const resetStatistics = () => {
+    statisticsRef.current.clear();
+    const history = statisticsTopic
+      ? historyRef.current.get(statisticsTopic)
+      : undefined;
+    setStatisticsResetTime(history?.[history.length - 1]?.time ?? -Infinity);
+  };
+
+  // Impulse, power and work of every source; recomputed as new messages arrive
+  const mechanics = useMemo(() => {
+    void messages;
+    void integratorResets;
+    return state.sources.map((source) =>
+      source.topic
+        ? integratorsRef.current.get(source.topic)?.result()
+        : undefined,
+    );
+  }, [state.sources, messages, integratorResets]);
+
+  const resetIntegrator = (topic: string, quantity: "impulse" | "work") => {
+    const integrator = integratorsRef.current.get(topic);
+    if (quantity === "impulse") {
+      integrator?.resetImpulse();
+    } else {
+      integrator?.resetWork();
+    }
+    setIntegratorResets((count) => count + 1);
+  };
+
   // Setup render callback
   useLayoutEffect(() => {
     context.onRender = (renderState, done) => {
       setRenderDone(() => done);
       setTopics(renderState.topics);
+      setPlaybackRange((prev) =>
+        isSameTime(prev.start, renderState.startTime) &&
+        isSameTime(prev.end, renderState.endTime)
+          ? prev
+          : { start: renderState.startTime, end: renderState.endTime },
+      );
+      setCurrentTime(
+        renderState.currentTime
+          ? toSeconds(renderState.currentTime)
+          : undefined,
+      );
       
       // Perform size checks (if necessary)
       if (canvasRef.current && rendererRef.current) {
@@ -762,10 +3284,126 @@ function WrenchPanel({ context }: { context: PanelExtensionContext }): JSX.Eleme
         }
       }
 
+      if (robotParameter) {
+        const description = renderState.parameters?.get(robotParameter);
+        if (typeof description === "string") {
+          setRobotDescription(description);
+        }
+      }
+
+      // Messages between the old and new position were skipped; drop everything derived from them.
+      // Static transforms are kept since they are not published again.
+      if (renderState.didSeek === true) {
+        tfBufferRef.current.clearDynamic();
+        heldTransformsRef.current.clear();
+        setTfVersion((version) => version + 1);
+        historyRef.current.clear();
+        preloadedFramesRef.current.clear();
+        filtersRef.current.clear();
+        statisticsRef.current.clear();
+        setStatisticsResetTime(-Infinity);
+        integratorsRef.current.clear();
+        previousLimitLevelsRef.current = [];
+        windowMaximaRef.current = [];
+        setWindowMaxima([]);
+        setMessages(new Map());
+        setFilteredWrenches(new Map());
+        trailsRef.current = [];
+      }
+
+      // Fill empty histories from the preloaded messages up to the playback position. A topic is
+      // only scanned again when it is still empty and more messages were preloaded since. The
+      // messages go through the bias and filter stages of live messages, with a fresh filter that
+      // live messages continue from. Every loaded message before the playback position counts
+      // towards the statistics; the history keeps the last `historyWindow` seconds as usual.
+      const allFrames = preload ? renderState.allFrames : undefined;
+      const emptyTopics = allFrames
+        ? sourceTopics.filter(
+            (topic) =>
+              (historyRef.current.get(topic)?.length ?? 0) === 0 &&
+              preloadedFramesRef.current.get(topic) !== allFrames,
+          )
+        : [];
+      if (allFrames && emptyTopics.length > 0 && renderState.currentTime) {
+        emptyTopics.forEach((topic) => {
+          preloadedFramesRef.current.set(topic, allFrames);
+        });
+        const now = toSeconds(renderState.currentTime);
+        const latestMessages = new Map<string, SourceWrenchMessageEvent>();
+        const latestFiltered = new Map<string, Wrench>();
+        const preloadFilters = new Map<string, WrenchFilter | undefined>();
+        allFrames.forEach((event) => {
+          const time = toSeconds(event.receiveTime);
+          if (!emptyTopics.includes(event.topic) || time > now) {
+            return;
+          }
+          const message = toSourceWrenchMessage(
+            event,
+            unstampedFrames.get(event.topic) ?? fixedFrame,
+          );
+          if (!message) {
+            return;
+          }
+          const topic = event.topic;
+          const bias = biases[topic];
+          if (!preloadFilters.has(topic)) {
+            preloadFilters.set(topic, createWrenchFilter(filterConfig));
+          }
+          const filter = preloadFilters.get(topic);
+          const unbiased = bias
+            ? subtractWrench(message.wrench, bias)
+            : message.wrench;
+          const filtered = filter?.update(time, unbiased);
+          if (filtered) {
+            latestFiltered.set(topic, filtered);
+          }
+
+          let accumulator = statisticsRef.current.get(topic);
+          if (!accumulator) {
+            accumulator = new WrenchStatistics();
+            statisticsRef.current.set(topic, accumulator);
+          }
+          accumulator.add(time, filtered ?? unbiased);
+
+          if (time >= now - historyWindow) {
+            const history = historyRef.current.get(topic) ?? [];
+            history.push({ time, wrench: message.wrench, filtered });
+            historyRef.current.set(topic, history);
+          }
+          latestMessages.set(topic, { ...event, message });
+        });
+        preloadFilters.forEach((filter, topic) => {
+          if (filter && !filtersRef.current.has(topic)) {
+            filtersRef.current.set(topic, filter);
+          }
+        });
+        if (latestFiltered.size > 0) {
+          setFilteredWrenches(
+            (prevFiltered) => new Map([...latestFiltered, ...prevFiltered]),
+          );
+        }
+        if (latestMessages.size > 0) {
+          setMessages(
+            (prevMessages) => new Map([...latestMessages, ...prevMessages]),
+          );
+        }
+      }
+
       if (renderState.currentFrame && renderState.currentFrame.length > 0) {
         // Process frame messages
         const newTfMessages: TFMessageEvent[] = [];
-        
+        const newWrenchMessages = new Map<string, SourceWrenchMessageEvent>();
+        const newSamples = new Map<string, HistorySample[]>();
+        // Bias-free, filtered source samples; processed further once the transforms of this frame
+        // are in the TF buffer
+        const newSourceSamples: {
+          topic: string;
+          receiveTime: Time;
+          header: Header;
+          wrench: Wrench;
+        }[] = [];
+        const newFilteredWrenches = new Map<string, Wrench>();
+
         renderState.currentFrame.forEach(frameMsg => {
           const topic = frameMsg.topic;
           
@@ -774,68 +3412,794 @@ function WrenchPanel({ context }: { context: PanelExtensionContext }): JSX.Eleme
             newTfMessages.push(frameMsg as TFMessageEvent);
           }
           
-          // Process WrenchStamped message for the selected topic
-          if (topic === state.data.topic) {
-            const wrenchMsg = frameMsg as WrenchStampedMessageEvent;
-            setMessage(wrenchMsg);
-            setSensorFrameId(wrenchMsg.message.header.frame_id);
+          if (topic === robotTopic) {
+            setRobotDescription((frameMsg as StringMessageEvent).message.data);
           }
+
+          const isReference = referenceTopics.includes(topic);
+          const isSource = sourceTopics.includes(topic);
+          const message =
+            isReference || isSource
+              ? toSourceWrenchMessage(
+                  frameMsg,
+                  unstampedFrames.get(topic) ?? fixedFrame,
+                )
+              : undefined;
+          if (!message) {
+            return;
+          }
+          const wrenchMsg: SourceWrenchMessageEvent = {
+            ...(frameMsg as MessageEvent),
+            message,
+          };
+
+          // References only need their latest message
+          if (isReference) {
+            newWrenchMessages.set(topic, wrenchMsg);
+          }
+
+          // Keep the latest message of each source topic, read as WrenchStamped
+          if (isSource) {
+            newWrenchMessages.set(topic, wrenchMsg);
+
+            // Every message of the frame goes through the filter stage and into the history
+            const time = toSeconds(wrenchMsg.receiveTime);
+            const rawWrench = wrenchMsg.message.wrench;
+            const bias = biases[topic];
+            const unbiased = bias ? subtractWrench(rawWrench, bias) : rawWrench;
+            // Preloaded messages up to the playback position already went through the filter, the
+            // statistics and the history
+            const history = historyRef.current.get(topic) ?? [];
+            let filtered: Wrench | undefined;
+            if (time <= (history[history.length - 1]?.time ?? -Infinity)) {
+              filtered = history.find(
+                (sample) => sample.time === time,
+              )?.filtered;
+            } else {
+              let filter = filtersRef.current.get(topic);
+              if (!filter && filterConfig.type !== "none") {
+                filter = createWrenchFilter(filterConfig);
+                if (filter) {
+                  filtersRef.current.set(topic, filter);
+                }
+              }
+              filtered = filter?.update(time, unbiased);
+
+              let accumulator = statisticsRef.current.get(topic);
+              if (!accumulator) {
+                accumulator = new WrenchStatistics();
+                statisticsRef.current.set(topic, accumulator);
+              }
+              accumulator.add(time, filtered ?? unbiased);
+
+              const samples = newSamples.get(topic) ?? [];
+              samples.push({ time, wrench: rawWrench, filtered });
+              newSamples.set(topic, samples);
+            }
+            if (filtered) {
+              newFilteredWrenches.set(topic, filtered);
+            }
+            newSourceSamples.push({
+              topic,
+              receiveTime: wrenchMsg.receiveTime,
+              header: wrenchMsg.message.header,
+              wrench: filtered ?? unbiased,
+            });
+          }
+        });
+
+        newSamples.forEach((samples, topic) => {
+          const history = historyRef.current.get(topic) ?? [];
+          const oldestTime = samples[samples.length - 1]!.time - historyWindow;
+          historyRef.current.set(
+            topic,
+            [...history, ...samples].filter(
+              (sample) => sample.time >= oldestTime,
+            ),
+          );
         });
-        
+
+        if (newFilteredWrenches.size > 0) {
+          setFilteredWrenches(
+            (prevFiltered) =>
+              new Map([...prevFiltered, ...newFilteredWrenches]),
+          );
+        }
+
+        if (newWrenchMessages.size > 0) {
+          setMessages(
+            (prevMessages) => new Map([...prevMessages, ...newWrenchMessages]),
+          );
+        }
+
         if (newTfMessages.length > 0) {
           updateTFTree(newTfMessages);
           // setTfMessages(newTfMessages);
         }
+
+        const lookup = (
+          targetFrame: string,
+          sourceFrame: string,
+          time?: number,
+        ) =>
+          lookupHeld(
+            tfBufferRef.current,
+            heldTransformsRef.current,
+            targetFrame,
+            sourceFrame,
+            time,
+          );
+        const newViolations: LimitViolation[] = [];
+        newSourceSamples.forEach(({ topic, receiveTime, header, wrench }) => {
+          // The sensor velocity comes from the poses of the sensor frame at the message stamps
+          let integrator = integratorsRef.current.get(topic);
+          if (!integrator) {
+            integrator = new WrenchIntegrator();
+            integratorsRef.current.set(topic, integrator);
+          }
+          const pose = tfBufferRef.current.lookupTransform(
+            fixedFrame,
+            header.frame_id,
+            stampToNanoseconds(header.stamp),
+          );
+          integrator.add(toSeconds(header.stamp), wrench, pose.transform);
+
+          // Every message is checked against the limits as it would be drawn, so spikes between
+          // two renders are reported too
+          sources.forEach((source, index) => {
+            if (source.topic !== topic) {
+              return;
+            }
+            const frames = resolveSourceFrames(source, header, {
+              fixedFrame,
+              gravity,
+              lookup,
+            });
+            const displayed = toDisplayedWrench(wrench, frames);
+            const result = evaluateLimits(displayed, limits);
+            const previous = previousLimitLevelsRef.current[index];
+            WRENCH_CHANNELS.forEach(({ key, label, value }) => {
+              const level = result.channels[key];
+              if (
+                level !== "ok" &&
+                worstLevel(level, previous?.[key] ?? "ok") !== previous?.[key]
+              ) {
+                newViolations.push({
+                  time: receiveTime,
+                  sourceLabel: source.label,
+                  channelLabel: label,
+                  value: value(displayed),
+                  level,
+                });
+              }
+            });
+            previousLimitLevelsRef.current[index] = result.channels;
+
+            let maxima = windowMaximaRef.current[index];
+            if (!maxima) {
+              maxima = {
+                force: new WindowMaximum(historyWindow),
+                torque: new WindowMaximum(historyWindow),
+              };
+              windowMaximaRef.current[index] = maxima;
+            }
+            maxima.force.window = historyWindow;
+            maxima.torque.window = historyWindow;
+            const time = toSeconds(receiveTime);
+            maxima.force.add(time, magnitude(displayed.force));
+            maxima.torque.add(time, magnitude(displayed.torque));
+
+            // The trail and heat map record every displayed force, not only the last of a frame
+            const trail = trailsRef.current[index] ?? [];
+            trailsRef.current[index] = trail;
+            if ((trail[trail.length - 1]?.time ?? -Infinity) < time) {
+              trail.push({ time, force: displayed.force });
+              let expired = 0;
+              while (
+                expired < trail.length &&
+                trail[expired]!.time < time - trailWindow
+              ) {
+                expired++;
+              }
+              trail.splice(0, expired);
+            }
+          });
+        });
+        if (newViolations.length > 0) {
+          setViolations((prev) =>
+            [...newViolations.reverse(), ...prev].slice(0, MAX_VIOLATIONS),
+          );
+        }
+        if (newSourceSamples.length > 0) {
+          setWindowMaxima(
+            sources.map((_, index) => {
+              const maxima = windowMaximaRef.current[index];
+              return {
+                force: maxima?.force.max() ?? 0,
+                torque: maxima?.torque.max() ?? 0,
+              };
+            }),
+          );
+        }
       }
     };
 
     context.watch("topics");
     context.watch("currentFrame");
-  }, [context, state.data.topic, tfTopics, updateTFTree, handleResize]);
+    context.watch("didSeek");
+    context.watch("allFrames");
+    context.watch("currentTime");
+    context.watch("parameters");
+    context.watch("startTime");
+    context.watch("endTime");
+  }, [
+    filterConfig,
+    biases,
+    context,
+    sourceTopics,
+    referenceTopics,
+    unstampedFrames,
+    fixedFrame,
+    preload,
+    sources,
+    gravity,
+    limits,
+    tfTopics,
+    updateTFTree,
+    handleResize,
+    historyWindow,
+    trailWindow,
+    robotTopic,
+    robotParameter,
+  ]);
 
   // Call render done function
   useEffect(() => {
     renderDone?.();
   }, [renderDone]);
 
-  // Helper to render force/torque data
-  const renderWrenchData = () => {
-    if (!message) return null;
-    
-    const { force, torque } = message.message.wrench;
-    const frameId = message.message.header.frame_id;
-    
+  // Redraw after every update; the effects above mutate the persistent scene objects in place
+  useEffect(() => {
+    requestRender();
+  });
+
+  // Helper to render force/torque data of one source
+  const renderWrenchData = (source: WrenchSourceConfig, index: number) => {
+    const msg = source.topic ? messages.get(source.topic) : undefined;
+    const displayed = displayedWrenches[index];
+    if (!msg || !displayed) {
+      return null;
+    }
+
+    const { forceUnit, torqueUnit } = state.display;
+    const forceScale = FORCE_UNITS[forceUnit].fromSI;
+    const torqueScale = TORQUE_UNITS[torqueUnit].fromSI;
+    const force = convertVector(displayed.wrench.force, forceScale);
+    const torque = convertVector(displayed.wrench.torque, torqueScale);
+    const frameId = displayed.frameId;
+    const sensorFrameId = msg.message.header.frame_id;
+
+    const bias = state.biases[msg.topic];
+    const result = mechanics[index];
+
     return (
-      <div style={{ display: "flex", flexDirection: "column", gap: "8px", fontSize: "12px", marginTop: "8px" }}>
+      <div
+        key={index}
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          gap: "4px",
+          fontSize: "12px",
+          marginTop: "8px",
+        }}
+      >
         <div>
+          <span style={{ color: source.forceColor }}>&#9632;</span>{" "}
+          <strong>{source.label}</strong> ({source.topic}){" "}
           <strong>Frame ID:</strong> {frameId}
+          {frameId !== sensorFrameId && ` (measured in ${sensorFrameId})`}
+          {currentTime != undefined && (
+            <span
+              style={{
+                color: staleSources[index] === true ? "#ff6b6b" : undefined,
+              }}
+            >
+              {" "}
+              <strong>Age:</strong>{" "}
+              {(currentTime - toSeconds(msg.receiveTime)).toFixed(3)} s
+              {staleSources[index] === true && " (stale)"}
+            </span>
+          )}
+          {messageRates[index] != undefined && (
+            <>
+              {" "}
+              <strong>Rate:</strong> {messageRates[index].toFixed(1)} Hz
+            </>
+          )}
         </div>
         <div style={{ display: "flex", gap: "16px" }}>
           <div>
             <strong>Force:</strong>{" "}
-            ({force.x.toFixed(3)}, {force.y.toFixed(3)}, {force.z.toFixed(3)})
+            ({force.x.toFixed(3)}, {force.y.toFixed(3)}, {force.z.toFixed(3)}){" "}
+            {forceUnit}
           </div>
           <div>
             <strong>Torque:</strong>{" "}
-            ({torque.x.toFixed(3)}, {torque.y.toFixed(3)}, {torque.z.toFixed(3)})
+            ({torque.x.toFixed(3)}, {torque.y.toFixed(3)}, {torque.z.toFixed(3)}){" "}
+            {torqueUnit}
+          </div>
+        </div>
+        {bias && (
+          <div style={{ color: "#aaa" }}>Bias: {formatWrench(bias)}</div>
+        )}
+        {displayed.reference && (
+          <div style={{ color: "#aaa" }}>
+            <strong>Reference:</strong> ({source.reference.topic}){" "}
+            {formatVector(convertVector(displayed.reference.force, forceScale))}{" "}
+            {forceUnit},{" "}
+            {formatVector(
+              convertVector(displayed.reference.torque, torqueScale),
+            )}{" "}
+            {torqueUnit}
+          </div>
+        )}
+        {displayed.error && (
+          <div
+            style={{
+              color: `#${ERROR_ARROW_COLOR.toString(16).padStart(6, "0")}`,
+            }}
+          >
+            <strong>Error:</strong>{" "}
+            {formatVector(convertVector(displayed.error.force, forceScale))}{" "}
+            {forceUnit} (|F| ={" "}
+            {(magnitude(displayed.error.force) * forceScale).toFixed(3)}{" "}
+            {forceUnit}),{" "}
+            {formatVector(convertVector(displayed.error.torque, torqueScale))}{" "}
+            {torqueUnit} (|T| ={" "}
+            {(magnitude(displayed.error.torque) * torqueScale).toFixed(3)}{" "}
+            {torqueUnit})
           </div>
+        )}
+        {displayed.contact && (
+          <div style={{ color: source.contact.color }}>
+            {displayed.contact.contactPoint ? (
+              <>
+                <strong>
+                  {source.contact.surface === "plane"
+                    ? "Center of pressure:"
+                    : "Contact:"}
+                </strong>{" "}
+                {formatVector(displayed.contact.contactPoint)} m
+              </>
+            ) : (
+              <>
+                <strong>Line of action:</strong> through{" "}
+                {formatVector(displayed.contact.line.origin)} m along{" "}
+                {formatVector(displayed.contact.line.direction)}
+              </>
+            )}
+          </div>
+        )}
+        {displayed.contacts && (
+          <div style={{ color: source.contact.color }}>
+            <strong>Reported contacts:</strong> {displayed.contacts.length}
+          </div>
+        )}
+        {result && (
+          <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+            <span>
+              <strong>Impulse:</strong>{" "}
+              {formatVector(convertVector(result.impulse, forceScale))}{" "}
+              {forceUnit}·s
+            </span>
+            <button
+              onClick={() => {
+                resetIntegrator(msg.topic, "impulse");
+              }}
+            >
+              Reset
+            </button>
+            <span>
+              <strong>Power:</strong>{" "}
+              {result.power != undefined
+                ? `${result.power.toFixed(3)} W`
+                : "waiting for TF"}
+            </span>
+            <span>
+              <strong>Work:</strong> {result.work.toFixed(3)} J
+            </span>
+            <button
+              onClick={() => {
+                resetIntegrator(msg.topic, "work");
+              }}
+            >
+              Reset
+            </button>
+          </div>
+        )}
+        {displayed.errors.map((error) => (
+          <div key={error} style={{ color: "#ff6b6b" }}>
+            TF: {error}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  // Show the tooltip of the arrow at a point of the canvas, pinned until the next click if requested
+  const inspectArrowAt = (
+    clientX: number,
+    clientY: number,
+    options: { pin: boolean },
+  ) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    const picked = pickArrow(clientX, clientY);
+    setArrowPick(
+      picked && rect
+        ? {
+            ...picked,
+            x: clientX - rect.left,
+            y: clientY - rect.top,
+            pinned: options.pin,
+          }
+        : undefined,
+    );
+  };
+
+  // Components, magnitude, frame, stamp and origin of the inspected arrow
+  const renderArrowTooltip = () => {
+    const source = arrowPick ? state.sources[arrowPick.sourceIndex] : undefined;
+    const displayed = arrowPick
+      ? sceneWrenches[arrowPick.sourceIndex]
+      : undefined;
+    if (!arrowPick || !source || !displayed) {
+      return null;
+    }
+    const isForce = arrowPick.kind === "force";
+    const { forceUnit, torqueUnit } = state.display;
+    const unit = isForce ? forceUnit : torqueUnit;
+    const vector = isForce
+      ? convertVector(displayed.wrench.force, FORCE_UNITS[forceUnit].fromSI)
+      : convertVector(displayed.wrench.torque, TORQUE_UNITS[torqueUnit].fromSI);
+    const origin = displayed.framePose.transform?.translation;
+    return (
+      <div
+        style={{
+          position: "absolute",
+          left: `${arrowPick.x + 12}px`,
+          top: `${arrowPick.y + 12}px`,
+          backgroundColor: "rgba(18, 18, 23, 0.9)",
+          border: "1px solid #555",
+          padding: "4px 8px",
+          fontSize: "11px",
+          color: "#eee",
+          whiteSpace: "nowrap",
+          pointerEvents: "none",
+        }}
+      >
+        <div>
+          <strong>
+            {source.label} {isForce ? "force" : "torque"}
+          </strong>
+          {arrowPick.pinned && " (pinned, click to release)"}
+        </div>
+        <div>
+          {formatVector(vector)} {unit}
+        </div>
+        <div>
+          |{isForce ? "F" : "T"}| = {magnitude(vector).toFixed(3)} {unit}
+        </div>
+        <div>Frame: {displayed.frameId}</div>
+        <div>Stamp: {formatStamp(displayed.stamp)}</div>
+        <div>
+          Origin in {state.data.fixedFrame}:{" "}
+          {origin ? `${formatVector(origin)} m` : "unknown"}
         </div>
       </div>
     );
   };
 
+  // Scale of the force and torque arrows of one source, in the display units
+  const renderScaleLegend = (source: WrenchSourceConfig, index: number) => {
+    const maxima = sceneMaxima[index];
+    if (!source.visible || !maxima || !sceneWrenches[index]) {
+      return null;
+    }
+    const { scalingMode, forceUnit, torqueUnit } = state.display;
+    const describe = (
+      scaleFactor: number,
+      max: number,
+      unit: string,
+      fromSI: number,
+      siUnit: string,
+    ) => {
+      switch (scalingMode) {
+        case "linear":
+          return `1 m = ${((1 / scaleFactor) * fromSI).toPrecision(3)} ${unit}`;
+        case "log":
+          return `${scaleFactor} m per decade of ${siUnit}`;
+        case "autoFit":
+          return `${scaleFactor} m = ${(max * fromSI).toPrecision(3)} ${unit}`;
+        case "normalized":
+          return (
+            <>
+              0{" "}
+              <span
+                style={{
+                  display: "inline-block",
+                  width: "48px",
+                  height: "8px",
+                  background: MAGNITUDE_GRADIENT,
+                }}
+              />{" "}
+              {(max * fromSI).toPrecision(3)} {unit}
+            </>
+          );
+      }
+    };
+    return (
+      <div key={index}>
+        {source.label}: F{" "}
+        {describe(
+          source.forceScaleFactor,
+          maxima.force,
+          forceUnit,
+          FORCE_UNITS[forceUnit].fromSI,
+          "N",
+        )}
+        , T{" "}
+        {describe(
+          source.torqueScaleFactor,
+          maxima.torque,
+          torqueUnit,
+          TORQUE_UNITS[torqueUnit].fromSI,
+          "N·m",
+        )}
+      </div>
+    );
+  };
+
   return (
     <div style={{ height: "100%", display: "flex", flexDirection: "column", overflow: "hidden" }}>
       <div style={{ padding: "1rem", borderBottom: "1px solid #333" }}>
-        <h2 style={{ margin: 0 }}>{state.data.topic ?? "Select a WrenchStamped topic in settings"}</h2>
-        {renderWrenchData()}
+        <style>
+          {
+            "@keyframes wrench-alarm-flash { 50% { background-color: transparent; } }"
+          }
+        </style>
+        <h2
+          style={{
+            margin: 0,
+            backgroundColor: alarmColor,
+            animation: alarmColor
+              ? "wrench-alarm-flash 1s step-end infinite"
+              : undefined,
+          }}
+        >
+          {sourceTopics.length > 0
+            ? state.data.label
+            : "Select a wrench topic in settings"}
+        </h2>
+        {state.sources.map(renderWrenchData)}
+        {commandTopic && (
+          <div style={{ fontSize: "12px", marginTop: "8px" }}>
+            <strong>Command</strong> ({commandTopic}, {commandFrameId}):{" "}
+            {formatWrench(commandWrench)}
+          </div>
+        )}
+        {state.statistics.visible && statisticsTopic && (
+          <div style={{ fontSize: "12px", marginTop: "8px" }}>
+            <div style={{ display: "flex", justifyContent: "space-between" }}>
+              <strong>
+                Statistics: {state.sources[state.statistics.sourceIndex]?.label}{" "}
+                (
+                {statisticsMode === "window"
+                  ? `last ${statisticsWindow} s`
+                  : "since reset or seek"}
+                , sensor frame)
+              </strong>
+              <button onClick={resetStatistics}>Reset</button>
+            </div>
+            {statistics ? (
+              <table style={{ borderSpacing: "8px 0", textAlign: "right" }}>
+                <thead>
+                  <tr>
+                    <th />
+                    <th>Min</th>
+                    <th>Max</th>
+                    <th>Mean</th>
+                    <th>Std</th>
+                    <th>RMS</th>
+                    <th>P-P</th>
+                    <th>Peak</th>
+                    <th>Peak time (s)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {WRENCH_CHANNELS.map(({ key, label }) => {
+                    const channel = statistics[key];
+                    return (
+                      <tr key={key}>
+                        <th>{label}</th>
+                        <td>{channel.min.toFixed(3)}</td>
+                        <td>{channel.max.toFixed(3)}</td>
+                        <td>{channel.mean.toFixed(3)}</td>
+                        <td>{channel.std.toFixed(3)}</td>
+                        <td>{channel.rms.toFixed(3)}</td>
+                        <td>{channel.peakToPeak.toFixed(3)}</td>
+                        <td>{channel.peak.toFixed(3)}</td>
+                        <td>{channel.peakTime.toFixed(3)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            ) : (
+              <div style={{ color: "#aaa" }}>No samples</div>
+            )}
+          </div>
+        )}
+        {state.diagnostics.showTfTree && (
+          <div style={{ fontSize: "12px", marginTop: "8px" }}>
+            <strong>TF tree</strong>
+            {tfFrames.length > 0 ? (
+              <div style={{ maxHeight: "10em", overflowY: "auto" }}>
+                <table style={{ borderSpacing: "8px 0", textAlign: "left" }}>
+                  <thead>
+                    <tr>
+                      <th>Frame</th>
+                      <th>Parent</th>
+                      <th>Rate (Hz)</th>
+                      <th>Last stamp (s)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {tfFrames.map((frame) => (
+                      <tr key={frame.frameId}>
+                        <td>{frame.frameId}</td>
+                        <td>{frame.parentFrameId ?? "(root)"}</td>
+                        <td>
+                          {frame.isStatic
+                            ? "static"
+                            : (frame.rate?.toFixed(1) ?? "-")}
+                        </td>
+                        <td>
+                          {frame.latestStamp != undefined
+                            ? (frame.latestStamp / 1e9).toFixed(3)
+                            : "-"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div style={{ color: "#aaa" }}>No transforms received</div>
+            )}
+          </div>
+        )}
+        {violations.length > 0 && (
+          <div style={{ fontSize: "12px", marginTop: "8px" }}>
+            <div style={{ display: "flex", justifyContent: "space-between" }}>
+              <strong>Limit violations</strong>
+              <button
+                onClick={() => {
+                  setViolations([]);
+                }}
+              >
+                Clear
+              </button>
+            </div>
+            <div style={{ maxHeight: "6em", overflowY: "auto" }}>
+              {violations.map((violation, index) => (
+                <div
+                  key={index}
+                  style={{
+                    cursor: context.seekPlayback ? "pointer" : undefined,
+                    color:
+                      violation.level === "critical"
+                        ? state.display.limits.criticalColor
+                        : state.display.limits.warningColor,
+                  }}
+                  onClick={() => context.seekPlayback?.(violation.time)}
+                >
+                  {toSeconds(violation.time).toFixed(3)} s{" "}
+                  {violation.sourceLabel} {violation.channelLabel} ={" "}
+                  {violation.value.toFixed(3)} ({violation.level})
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
       <div style={{ flex: 1, position: "relative" }}>
         <canvas
           ref={canvasRef}
           style={{ width: "100%", height: "100%", display: "block" }}
+          onPointerDown={(event) => {
+            pointerDownRef.current = { x: event.clientX, y: event.clientY };
+          }}
+          onPointerMove={(event) => {
+            // Follow the pointer unless a tooltip is pinned or the camera is being dragged
+            if (event.buttons === 0 && arrowPick?.pinned !== true) {
+              inspectArrowAt(event.clientX, event.clientY, { pin: false });
+            }
+          }}
+          onPointerLeave={() => {
+            if (arrowPick?.pinned !== true) {
+              setArrowPick(undefined);
+            }
+          }}
+          onClick={(event) => {
+            const down = pointerDownRef.current;
+            if (
+              down &&
+              Math.hypot(event.clientX - down.x, event.clientY - down.y) >
+                CLICK_TOLERANCE
+            ) {
+              return;
+            }
+            inspectArrowAt(event.clientX, event.clientY, { pin: true });
+          }}
         />
+        {renderArrowTooltip()}
+        <button
+          style={{ position: "absolute", right: "8px", top: "8px" }}
+          onClick={togglePause}
+          title="Freeze the 3D view on the current wrenches while data keeps buffering"
+        >
+          {viewPaused ? "Resume view" : "Pause view"}
+        </button>
+        <div
+          style={{
+            position: "absolute",
+            left: "8px",
+            right: "110px", // clear of the pause button
+            top: "8px",
+            fontSize: "12px",
+            pointerEvents: "none",
+          }}
+        >
+          {displayedWrenches.map((displayed, index) =>
+            displayed?.framePose.error != undefined ? (
+              <div
+                key={index}
+                style={{
+                  backgroundColor: "rgba(160, 30, 30, 0.85)",
+                  color: "#fff",
+                  padding: "4px 8px",
+                  marginBottom: "4px",
+                }}
+              >
+                {state.sources[index]?.label}: {displayed.framePose.error}.
+              </div>
+            ) : null,
+          )}
+        </div>
+        <div
+          style={{
+            position: "absolute",
+            left: "8px",
+            bottom: "8px",
+            fontSize: "11px",
+            color: "#ccc",
+            pointerEvents: "none",
+          }}
+        >
+          {state.sources.map(renderScaleLegend)}
+        </div>
       </div>
+      {state.plot.visible && plotTopic && (
+        <div style={{ borderTop: "1px solid #333" }}>
+          <WrenchPlot
+            samples={plotSamples}
+            timeWindow={state.plot.timeWindow}
+            enabledSeries={state.plot.series}
+            cursorTime={currentTime}
+            height={state.plot.height}
+          />
+        </div>
+      )}
     </div>
   );
 }
@@ -850,85 +4214,401 @@ export function initExamplePanel(context: PanelExtensionContext): () => void {
   };
 }
 
-function createTorqueRotationIndicator(direction:any, distance:any, radius:any, color:any) {
-  const group = new THREE.Group();
-  
-  // Normalize the direction vector
-  const normalizedDir = new THREE.Vector3().copy(direction).normalize();
-  
-  // Create a torus (circular arc) to show rotation direction
-  const arcAngle = Math.PI * 1.5; // 270 degrees
-  const torusGeometry = new THREE.TorusGeometry(radius, radius * 0.015, 8, 24, arcAngle);
-  const torusMaterial = new THREE.MeshBasicMaterial({ color });
-  const torus = new THREE.Mesh(torusGeometry, torusMaterial);
-  
-  // Create a base group for positioning the entire indicator along the direction vector
-  const positionedGroup = new THREE.Group();
-  
-  // Orient the torus to align with the direction vector
-  const normalAxis = new THREE.Vector3(0, 0, 1);
-  const rotationAxis = new THREE.Vector3().crossVectors(normalAxis, normalizedDir);
-  
-  if (rotationAxis.length() > 0.001) {
-    // If direction isn't aligned with Z-axis
-    const angle = normalAxis.angleTo(normalizedDir);
-    torus.quaternion.setFromAxisAngle(rotationAxis.normalize(), angle);
+// Set the opacity of every mesh and line material below `object`
+function setObjectOpacity(object: THREE.Object3D, opacity: number): void {
+  object.traverse((child) => {
+    if (!(child instanceof THREE.Mesh || child instanceof THREE.Line)) {
+      return;
+    }
+    const materials = Array.isArray(child.material)
+      ? (child.material as THREE.Material[])
+      : [child.material as THREE.Material];
+    materials.forEach((material) => {
+      material.transparent = opacity < 1;
+      material.opacity = opacity;
+    });
+  });
+}
+
+// Point an arrow along `vector` with the given length in meters. A zero vector has no direction
+// to draw, so the arrow is hidden rather than left showing the previous value.
+function updateArrowHelper(
+  arrow: THREE.ArrowHelper,
+  vector: Vector3,
+  length: number,
+): void {
+  const direction = toThreeVector(vector);
+  if (direction.length() === 0 || length <= 0) {
+    arrow.visible = false;
+    return;
   }
-  
-  positionedGroup.add(torus);
-  
-  // Calculate the end point of the torus arc
-  const endAngle = -Math.PI/2; // End angle of the arc
-  
-  // Create arrow head to show rotation direction
-  const arrowHeadGeometry = new THREE.ConeGeometry(radius * 0.15, radius * 0.3, 8);
-  const arrowHeadMaterial = new THREE.MeshBasicMaterial({ color });
-  const arrowHead = new THREE.Mesh(arrowHeadGeometry, arrowHeadMaterial);
-  
-  // Position the arrow at the end of the torus arc
-  arrowHead.position.set(
-    radius * Math.cos(endAngle),
-    radius * Math.sin(endAngle),
-    0
+  arrow.setDirection(direction.normalize());
+  arrow.setLength(length, length * 0.2, length * 0.1);
+}
+
+// Look up a transform and remember it, or fall back to the last one remembered for the same frames
+function lookupHeld(
+  buffer: TFBuffer,
+  held: Map<string, Transform>,
+  targetFrame: string,
+  sourceFrame: string,
+  time?: number,
+): HeldLookupResult {
+  const result = buffer.lookupTransform(targetFrame, sourceFrame, time);
+  const key = JSON.stringify([targetFrame, sourceFrame]);
+  if (result.transform) {
+    held.set(key, result.transform);
+    return result;
+  }
+  const transform = held.get(key);
+  return {
+    transform,
+    error: transform
+      ? `${result.error}; holding the last valid transform`
+      : result.error,
+  };
+}
+
+/**
+ * Frames a source's wrench is drawn in at one message stamp. Failed lookups hold the last valid
+ * transform. Before the first one the wrench can only be given in the sensor frame, and it is not
+ * drawn rather than drawn at another frame's pose. A held sensor orientation also keeps the payload
+ * compensation going, so the arrow does not jump by m·g when TF drops out.
+ */
+function resolveSourceFrames(
+  source: WrenchSourceConfig,
+  header: Header,
+  options: {
+    fixedFrame: string;
+    gravity: [number, number, number];
+    lookup: (
+      targetFrame: string,
+      sourceFrame: string,
+      time?: number,
+    ) => HeldLookupResult;
+  },
+): SourceFrames {
+  const { fixedFrame, gravity, lookup } = options;
+  const stamp = stampToNanoseconds(header.stamp);
+  const errors: string[] = [];
+
+  // Predicted payload weight from the sensor orientation in the fixed frame
+  let gravityWrench: Wrench | undefined;
+  if (source.payload.compensate) {
+    const sensorPose = lookup(fixedFrame, header.frame_id, stamp);
+    if (sensorPose.transform) {
+      gravityWrench = predictedPayloadWrench(
+        source,
+        gravity,
+        sensorPose.transform,
+      );
+    }
+    if (sensorPose.error != undefined) {
+      errors.push(`Gravity compensation: ${sensorPose.error}`);
+    }
+  }
+
+  const displayFrame = source.displayFrame ?? header.frame_id;
+  const sensorInDisplay = lookup(displayFrame, header.frame_id, stamp);
+  if (sensorInDisplay.error != undefined) {
+    errors.push(sensorInDisplay.error);
+  }
+  if (!sensorInDisplay.transform) {
+    return {
+      frameId: header.frame_id,
+      gravityWrench,
+      framePose: {
+        error: `Not drawn until ${header.frame_id} can be expressed in ${displayFrame}`,
+      },
+      errors,
+    };
+  }
+  const framePose = lookup(fixedFrame, displayFrame, stamp);
+  if (framePose.error != undefined) {
+    errors.push(framePose.error);
+  }
+  return {
+    frameId: displayFrame,
+    sensorInDisplay: sensorInDisplay.transform,
+    gravityWrench,
+    framePose,
+    errors,
+  };
+}
+
+function compensatePayload(wrench: Wrench, frames: SourceFrames): Wrench {
+  return frames.gravityWrench
+    ? subtractWrench(wrench, frames.gravityWrench)
+    : wrench;
+}
+
+// Bias-free sensor wrench with the payload weight removed, expressed in the frame it is drawn in
+function toDisplayedWrench(wrench: Wrench, frames: SourceFrames): Wrench {
+  const compensated = compensatePayload(wrench, frames);
+  return frames.sensorInDisplay
+    ? transformWrench(compensated, frames.sensorInDisplay)
+    : compensated;
+}
+
+// Weight of the configured payload as measured by the sensor, given its pose in the fixed frame
+function predictedPayloadWrench(
+  source: WrenchSourceConfig,
+  gravity: [number, number, number],
+  sensorPose: Transform,
+): Wrench {
+  const [cx, cy, cz] = source.payload.centerOfMass;
+  const [gx, gy, gz] = gravity;
+  return payloadGravityWrench(
+    source.payload.mass,
+    { x: cx, y: cy, z: cz },
+    { x: gx, y: gy, z: gz },
+    sensorPose,
   );
-  
-  // Orient the arrow head tangent to the torus at the end point
-  const tangentAngle = endAngle + Math.PI/2;
-  const tangentDir = new THREE.Vector3(
-    Math.cos(tangentAngle),
-    Math.sin(tangentAngle),
-    0
+}
+
+function magnitude({ x, y, z }: Vector3): number {
+  return Math.hypot(x, y, z);
+}
+
+// Format a vector as "(x, y, z)" with three decimals
+function formatVector({ x, y, z }: Vector3): string {
+  return `(${x.toFixed(3)}, ${y.toFixed(3)}, ${z.toFixed(3)})`;
+}
+
+// Format a wrench as "F(x, y, z) T(x, y, z)" with three decimals
+function formatWrench({ force, torque }: Wrench): string {
+  return (
+    `F(${force.x.toFixed(3)}, ${force.y.toFixed(3)}, ${force.z.toFixed(3)}) ` +
+    `T(${torque.x.toFixed(3)}, ${torque.y.toFixed(3)}, ${torque.z.toFixed(3)})`
   );
-  
-  // Create a temporary vector to represent the default cone direction
-  const arrowDir = new THREE.Vector3(0, 1, 0);
-  
-  // Set quaternion to rotate from default direction to tangent direction
-  arrowHead.quaternion.setFromUnitVectors(arrowDir, tangentDir);
-  
-  // Move the cone back a bit so its base aligns with the torus end
-  const coneBaseOffset = radius * 0.15; // Adjust based on cone dimensions
-  arrowHead.position.x -= tangentDir.x * coneBaseOffset;
-  arrowHead.position.y -= tangentDir.y * coneBaseOffset;
-  
-  // Add the arrow to the positioned group and copy the torus rotation
-  const arrowGroup = new THREE.Group();
-  arrowGroup.add(arrowHead);
-  arrowGroup.quaternion.copy(torus.quaternion);
-  positionedGroup.add(arrowGroup);
-  
-  // Move the entire indicator along the direction vector
-  // Position it at a distance from the origin in the direction vector
-  // const offsetDistance = radius * 0.5; // Adjust this value as needed
-  const offsetDistance = distance * 0.25;
-  const offsetPosition = new THREE.Vector3()
-    .copy(normalizedDir)
-    .multiplyScalar(offsetDistance);
-  
-  positionedGroup.position.copy(offsetPosition);
-  
-  // Add the positioned group to the main group
-  group.add(positionedGroup);
-  
+}
+
+// Build the sensor group with force/torque arrows for one source
+function createSensorVisual(source: WrenchSourceConfig): SensorVisual {
+  const group = new THREE.Group();
+
+  const forceArrow = new THREE.ArrowHelper(
+    new THREE.Vector3(1, 0, 0),
+    new THREE.Vector3(0, 0, 0),
+    1,
+    parseInt(source.forceColor.substring(1), 16),
+    0.2,
+    0.1,
+  );
+  forceArrow.visible = false;
+  group.add(forceArrow);
+
+  const torqueArrow = new THREE.ArrowHelper(
+    new THREE.Vector3(0, 1, 0),
+    new THREE.Vector3(0, 0, 0),
+    1,
+    parseInt(source.torqueColor.substring(1), 16),
+    0.2,
+    0.1,
+  );
+  torqueArrow.visible = false;
+  group.add(torqueArrow);
+
+  const torqueRotationIndicator = createTorqueRotationIndicator(
+    source.torqueColor,
+  );
+  torqueRotationIndicator.visible = false;
+  group.add(torqueRotationIndicator);
+
+  // Unfiltered arrows drawn next to the filtered ones
+  const rawForceArrow = new THREE.ArrowHelper(
+    new THREE.Vector3(1, 0, 0),
+    new THREE.Vector3(0, 0, 0),
+    1,
+    RAW_ARROW_COLOR,
+    0.2,
+    0.1,
+  );
+  rawForceArrow.visible = false;
+  group.add(rawForceArrow);
+
+  const rawTorqueArrow = new THREE.ArrowHelper(
+    new THREE.Vector3(0, 1, 0),
+    new THREE.Vector3(0, 0, 0),
+    1,
+    RAW_ARROW_COLOR,
+    0.2,
+    0.1,
+  );
+  rawTorqueArrow.visible = false;
+  group.add(rawTorqueArrow);
+
+  // Reference ghost arrows and tracking error arrows
+  const referenceForceArrow = createGhostArrow(source.forceColor);
+  const referenceTorqueArrow = createGhostArrow(source.torqueColor);
+  group.add(referenceForceArrow, referenceTorqueArrow);
+
+  const errorForceArrow = new THREE.ArrowHelper(
+    new THREE.Vector3(1, 0, 0),
+    new THREE.Vector3(0, 0, 0),
+    1,
+    ERROR_ARROW_COLOR,
+  );
+  errorForceArrow.visible = false;
+  const errorTorqueArrow = new THREE.ArrowHelper(
+    new THREE.Vector3(0, 1, 0),
+    new THREE.Vector3(0, 0, 0),
+    1,
+    ERROR_ARROW_COLOR,
+  );
+  errorTorqueArrow.visible = false;
+  group.add(errorForceArrow, errorTorqueArrow);
+
+  // Line of action and estimated contact point
+  const lineOfAction = new THREE.Line(
+    new THREE.BufferGeometry(),
+    new THREE.LineBasicMaterial({
+      color: parseInt(source.contact.color.substring(1), 16),
+    }),
+  );
+  lineOfAction.visible = false;
+  group.add(lineOfAction);
+
+  const contactMarker = new THREE.Mesh(
+    new THREE.SphereGeometry(0.02, 16, 8),
+    new THREE.MeshBasicMaterial({
+      color: parseInt(source.contact.color.substring(1), 16),
+    }),
+  );
+  contactMarker.visible = false;
+  group.add(contactMarker);
+
+  // Contacts reported by contact sensors, created as they appear
+  const contactPoints: ContactPointVisual[] = [];
+
+  // Past force arrow tips and the direction heat map around the sensor
+  const trail = createTrail();
+  const heatMap = createDirectionHeatMap();
+  group.add(trail, heatMap);
+
+  // Add a small coordinate axes at sensor position
+  const sensorAxes = new THREE.AxesHelper(0.3);
+  group.add(sensorAxes);
+
+  return {
+    group,
+    forceArrow,
+    torqueArrow,
+    torqueRotationIndicator,
+    rawForceArrow,
+    rawTorqueArrow,
+    lineOfAction,
+    contactMarker,
+    contactPoints,
+    referenceForceArrow,
+    referenceTorqueArrow,
+    errorForceArrow,
+    errorTorqueArrow,
+    trail,
+    heatMap,
+  };
+}
+
+// Marker, normal and force arrow of one reported contact, posed at the contact position
+function createContactPointVisual(): ContactPointVisual {
+  const group = new THREE.Group();
+  const marker = new THREE.Mesh(
+    new THREE.SphereGeometry(0.01, 12, 6),
+    new THREE.MeshBasicMaterial(),
+  );
+  const normalArrow = new THREE.ArrowHelper(
+    new THREE.Vector3(0, 0, 1),
+    new THREE.Vector3(0, 0, 0),
+    CONTACT_NORMAL_LENGTH,
+  );
+  const forceArrow = new THREE.ArrowHelper(
+    new THREE.Vector3(1, 0, 0),
+    new THREE.Vector3(0, 0, 0),
+    1,
+  );
+  group.add(marker, normalArrow, forceArrow);
+  return { group, marker, normalArrow, forceArrow };
+}
+
+// Semi-transparent arrow used to draw a reference next to the measured arrow
+function createGhostArrow(color: string): THREE.ArrowHelper {
+  const arrow = new THREE.ArrowHelper(
+    new THREE.Vector3(1, 0, 0),
+    new THREE.Vector3(0, 0, 0),
+    1,
+    color,
+  );
+  [arrow.line.material, arrow.cone.material].forEach((material) => {
+    if (Array.isArray(material)) {
+      return;
+    }
+    material.transparent = true;
+    material.opacity = REFERENCE_ARROW_OPACITY;
+    material.depthWrite = false;
+  });
+  arrow.visible = false;
+  return arrow;
+}
+
+// Arc with an arrow head showing the sense of rotation about the torque axis. Built once at unit
+// radius around +Z; updateTorqueRotationIndicator orients and scales it in place.
+function createTorqueRotationIndicator(
+  color: THREE.ColorRepresentation,
+): THREE.Group {
+  const group = new THREE.Group();
+  const material = new THREE.MeshBasicMaterial({ color });
+
+  // 270 degree arc ending at -Y
+  const arc = new THREE.Mesh(
+    new THREE.TorusGeometry(1, 0.015, 8, 24, Math.PI * 1.5),
+    material,
+  );
+
+  // Cone tangent to the arc end, moved back so its base meets the arc
+  const arrowHead = new THREE.Mesh(
+    new THREE.ConeGeometry(0.15, 0.3, 8),
+    material,
+  );
+  arrowHead.position.set(-0.15, -1, 0);
+  arrowHead.quaternion.setFromUnitVectors(
+    new THREE.Vector3(0, 1, 0),
+    new THREE.Vector3(1, 0, 0),
+  );
+
+  group.add(arc, arrowHead);
   return group;
-}
\ No newline at end of file
+}
+
+// Center the arc on the torque axis a quarter of the arrow length from the origin, with a radius of
+// 15% of the arrow length
+function updateTorqueRotationIndicator(
+  indicator: THREE.Group,
+  direction: THREE.Vector3,
+  length: number,
+  color: THREE.ColorRepresentation,
+): void {
+  indicator.quaternion.setFromUnitVectors(
+    new THREE.Vector3(0, 0, 1),
+    direction,
+  );
+  indicator.position.copy(direction).multiplyScalar(length * 0.25);
+  indicator.scale.setScalar(length * 0.15);
+  const arc = indicator.children[0] as THREE.Mesh;
+  (arc.material as THREE.MeshBasicMaterial).color.set(color);
+}
+
+// Release the GPU resources of every geometry and material below `object`
+function disposeObject(object: THREE.Object3D): void {
+  object.traverse((child) => {
+    if (!(child instanceof THREE.Mesh || child instanceof THREE.Line)) {
+      return;
+    }
+    (child.geometry as THREE.BufferGeometry).dispose();
+    const materials = Array.isArray(child.material)
+      ? (child.material as THREE.Material[])
+      : [child.material as THREE.Material];
+    materials.forEach((material) => {
+      material.dispose();
+    });
+  });
+}
@@ -0,0 +1,54 @@
+import { arrowLength, arrowMagnitude, magnitudeColor } from "./arrowScaling";
+
+describe("arrowLength", () => {
+  it("scales linearly", () => {
+    expect(arrowLength(20, "linear", 0.01, 0)).toBeCloseTo(0.2);
+  });
+
+  it("draws one scale factor per decade in log mode", () => {
+    expect(arrowLength(9, "log", 0.5, 0)).toBeCloseTo(0.5);
+    expect(arrowLength(99, "log", 0.5, 0)).toBeCloseTo(1);
+  });
+
+  it("draws every nonzero vector at full length in normalized mode", () => {
+    expect(arrowLength(0.001, "normalized", 0.3, 0)).toBe(0.3);
+    expect(arrowLength(0, "normalized", 0.3, 0)).toBe(0);
+  });
+
+  it("draws the recent maximum at full length in auto-fit mode", () => {
+    expect(arrowLength(5, "autoFit", 0.4, 10)).toBeCloseTo(0.2);
+    expect(arrowLength(5, "autoFit", 0.4, 0)).toBe(0);
+  });
+});
+
+describe("arrowMagnitude", () => {
+  it("inverts the arrow length", () => {
+    expect(
+      arrowMagnitude(arrowLength(20, "linear", 0.01, 0), "linear", 0.01, 0),
+    ).toBeCloseTo(20);
+    expect(
+      arrowMagnitude(arrowLength(42, "log", 0.5, 0), "log", 0.5, 0),
+    ).toBeCloseTo(42);
+    expect(
+      arrowMagnitude(arrowLength(5, "autoFit", 0.4, 10), "autoFit", 0.4, 10),
+    ).toBeCloseTo(5);
+  });
+
+  it("has no scale for normalized arrows or before the auto-fit maximum is known", () => {
+    expect(arrowMagnitude(0.3, "normalized", 0.3, 0)).toBeUndefined();
+    expect(arrowMagnitude(0.3, "autoFit", 0.4, 0)).toBeUndefined();
+  });
+});
+
+describe("magnitudeColor", () => {
+  it("goes from blue at zero to red at the maximum", () => {
+    expect(magnitudeColor(0, 10).getHexString()).toBe("0000ff");
+    expect(magnitudeColor(5, 10).getHexString()).toBe("00ff00");
+    expect(magnitudeColor(10, 10).getHexString()).toBe("ff0000");
+  });
+
+  it("clamps above the maximum and stays blue without one", () => {
+    expect(magnitudeColor(20, 10).getHexString()).toBe("ff0000");
+    expect(magnitudeColor(5, 0).getHexString()).toBe("0000ff");
+  });
+});
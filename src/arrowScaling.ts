@@ -0,0 +1,59 @@
+import * as THREE from "three";
+
+export type ArrowScalingMode = "linear" | "log" | "normalized" | "autoFit";
+
+/**
+ * Arrow length in meters for a vector of `magnitude`. `scaleFactor` is meters per unit in linear
+ * mode, meters per decade in log mode and the full arrow length in normalized and auto-fit modes.
+ * Auto-fit draws `recentMax` at full length.
+ */
+export function arrowLength(
+  magnitude: number,
+  mode: ArrowScalingMode,
+  scaleFactor: number,
+  recentMax: number,
+): number {
+  switch (mode) {
+    case "linear":
+      return magnitude * scaleFactor;
+    case "log":
+      return Math.log10(1 + magnitude) * scaleFactor;
+    case "normalized":
+      return magnitude > 0 ? scaleFactor : 0;
+    case "autoFit":
+      return recentMax > 0 ? (magnitude / recentMax) * scaleFactor : 0;
+  }
+}
+
+/**
+ * Magnitude drawn as an arrow of `length` meters, the inverse of `arrowLength`. Normalized arrows
+ * have the same length for every magnitude and auto-fit has no scale before `recentMax` is known,
+ * so both return undefined there.
+ */
+export function arrowMagnitude(
+  length: number,
+  mode: ArrowScalingMode,
+  scaleFactor: number,
+  recentMax: number,
+): number | undefined {
+  switch (mode) {
+    case "linear":
+      return length / scaleFactor;
+    case "log":
+      return 10 ** (length / scaleFactor) - 1;
+    case "normalized":
+      return undefined;
+    case "autoFit":
+      return recentMax > 0 ? (length / scaleFactor) * recentMax : undefined;
+  }
+}
+
+// Blue at zero through green to red at `max`, used to show magnitude on normalized arrows
+export function magnitudeColor(magnitude: number, max: number): THREE.Color {
+  const ratio = max > 0 ? Math.min(magnitude / max, 1) : 0;
+  return new THREE.Color().setHSL((2 / 3) * (1 - ratio), 1, 0.5);
+}
+
+// CSS gradient matching `magnitudeColor`, for the legend
+export const MAGNITUDE_GRADIENT =
+  "linear-gradient(to right, hsl(240, 100%, 50%), hsl(120, 100%, 50%), hsl(0, 100%, 50%))";
@@ -0,0 +1,311 @@
+import * as THREE from "three";
+
+import { ArrowScalingMode, arrowLength, arrowMagnitude } from "./arrowScaling";
+import { Wrench } from "./types";
+import { toThreeVector } from "./wrenchMath";
+
+const AXES = ["x", "y", "z"] as const;
+type Axis = (typeof AXES)[number];
+
+const AXIS_COLORS: Record<Axis, number> = {
+  x: 0xff4040,
+  y: 0x40ff40,
+  z: 0x4080ff,
+};
+
+const HANDLE_COLOR = 0xffffff;
+const RING_RADIUS = 0.35; // meters
+
+export type CommandGizmoOptions = {
+  // The force arrow is drawn like the measured arrows of the sensor, see arrowLength
+  scalingMode: ArrowScalingMode;
+  forceScale: number;
+  recentMax: number; // N, full length in auto-fit mode
+  torqueGain: number; // N·m per radian dragged around a ring
+  forceClamp: [number, number, number]; // N, per-axis magnitude limit
+  torqueClamp: [number, number, number]; // N·m, per-axis magnitude limit
+};
+
+type DragState =
+  | { kind: "force"; plane: THREE.Plane }
+  | { kind: "torque"; axis: Axis; plane: THREE.Plane; lastAngle: number };
+
+function clamp(value: number, limit: number): number {
+  return Math.min(Math.max(value, -limit), limit);
+}
+
+/**
+ * Draggable force arrow and torque rings attached to a sensor group. Dragging the sphere at the
+ * arrow tip sets the force, dragging along a ring changes the torque about that ring's axis. The
+ * commanded wrench is expressed in the frame of the group the gizmo is attached to.
+ */
+export class WrenchCommandGizmo {
+  readonly group = new THREE.Group();
+  // Called while dragging and once more with `final` set when the drag ends
+  onChange?: (wrench: Wrench, options: { final: boolean }) => void;
+  #camera: THREE.Camera;
+  #domElement: HTMLElement;
+  #controls: { enabled: boolean };
+  #options: CommandGizmoOptions;
+  #wrench: Wrench = {
+    force: { x: 0, y: 0, z: 0 },
+    torque: { x: 0, y: 0, z: 0 },
+  };
+  #forceArrow: THREE.ArrowHelper;
+  #forceHandle: THREE.Mesh;
+  #rings: Record<Axis, THREE.Mesh>;
+  #raycaster = new THREE.Raycaster();
+  #drag?: DragState;
+
+  constructor(args: {
+    camera: THREE.Camera;
+    domElement: HTMLElement;
+    controls: { enabled: boolean };
+    options: CommandGizmoOptions;
+  }) {
+    this.#camera = args.camera;
+    this.#domElement = args.domElement;
+    this.#controls = args.controls;
+    this.#options = args.options;
+
+    this.#forceArrow = new THREE.ArrowHelper(
+      new THREE.Vector3(1, 0, 0),
+      new THREE.Vector3(0, 0, 0),
+      0.001,
+      HANDLE_COLOR,
+    );
+    this.group.add(this.#forceArrow);
+
+    this.#forceHandle = new THREE.Mesh(
+      new THREE.SphereGeometry(0.04, 16, 8),
+      new THREE.MeshBasicMaterial({ color: HANDLE_COLOR }),
+    );
+    this.group.add(this.#forceHandle);
+
+    const ringRotations: Record<Axis, THREE.Euler> = {
+      x: new THREE.Euler(0, Math.PI / 2, 0),
+      y: new THREE.Euler(Math.PI / 2, 0, 0),
+      z: new THREE.Euler(0, 0, 0),
+    };
+    this.#rings = {} as Record<Axis, THREE.Mesh>;
+    AXES.forEach((axis) => {
+      const ring = new THREE.Mesh(
+        new THREE.TorusGeometry(RING_RADIUS, 0.012, 8, 48),
+        new THREE.MeshBasicMaterial({
+          color: AXIS_COLORS[axis],
+          transparent: true,
+          opacity: 0.7,
+        }),
+      );
+      ring.rotation.copy(ringRotations[axis]);
+      ring.userData.axis = axis;
+      this.group.add(ring);
+      this.#rings[axis] = ring;
+    });
+
+    // Capture so a grab on the gizmo is handled before the orbit controls see it
+    this.#domElement.addEventListener("pointerdown", this.#onPointerDown, {
+      capture: true,
+    });
+    this.#domElement.addEventListener("pointermove", this.#onPointerMove);
+    this.#domElement.addEventListener("pointerup", this.#onPointerUp);
+    this.#updateVisuals();
+  }
+
+  setOptions(options: CommandGizmoOptions): void {
+    this.#options = options;
+    this.#updateVisuals();
+  }
+
+  setWrench(wrench: Wrench): void {
+    this.#wrench = wrench;
+    this.#updateVisuals();
+  }
+
+  dispose(): void {
+    this.#domElement.removeEventListener("pointerdown", this.#onPointerDown, {
+      capture: true,
+    });
+    this.#domElement.removeEventListener("pointermove", this.#onPointerMove);
+    this.#domElement.removeEventListener("pointerup", this.#onPointerUp);
+    this.#controls.enabled = true;
+    this.group.removeFromParent();
+    this.group.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        (child.geometry as THREE.BufferGeometry).dispose();
+        (child.material as THREE.Material).dispose();
+      }
+    });
+  }
+
+  // Normalized arrows hide the magnitude and auto-fit has no scale yet, so the handle could not
+  // be mapped back to a force; the arrow is drawn linearly then
+  #scalingMode(): ArrowScalingMode {
+    const { scalingMode, forceScale, recentMax } = this.#options;
+    return arrowMagnitude(1, scalingMode, forceScale, recentMax) == undefined
+      ? "linear"
+      : scalingMode;
+  }
+
+  #updateVisuals(): void {
+    const { forceScale, recentMax } = this.#options;
+    const force = toThreeVector(this.#wrench.force);
+    const length = arrowLength(
+      force.length(),
+      this.#scalingMode(),
+      forceScale,
+      recentMax,
+    );
+    const tip = force.normalize().multiplyScalar(length);
+    this.#forceArrow.visible = length > 0;
+    if (length > 0) {
+      this.#forceArrow.setDirection(tip.clone().normalize());
+      this.#forceArrow.setLength(length, length * 0.2, length * 0.1);
+    }
+    this.#forceHandle.position.copy(tip);
+
+    // Rings of axes with a commanded torque are drawn opaque
+    AXES.forEach((axis) => {
+      const material = this.#rings[axis].material as THREE.MeshBasicMaterial;
+      material.opacity = this.#wrench.torque[axis] !== 0 ? 1 : 0.4;
+    });
+  }
+
+  #setPointer(event: PointerEvent): void {
+    const rect = this.#domElement.getBoundingClientRect();
+    this.#raycaster.setFromCamera(
+      new THREE.Vector2(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1,
+      ),
+      this.#camera,
+    );
+  }
+
+  // Angle of a world point around `axis` of the group, in the ring plane
+  #ringAngle(point: THREE.Vector3, axis: Axis): number {
+    const local = this.group.worldToLocal(point.clone());
+    switch (axis) {
+      case "x":
+        return Math.atan2(local.z, local.y);
+      case "y":
+        return Math.atan2(local.x, local.z);
+      case "z":
+        return Math.atan2(local.y, local.x);
+    }
+  }
+
+  #worldAxis(axis: Axis): THREE.Vector3 {
+    const direction = new THREE.Vector3(
+      axis === "x" ? 1 : 0,
+      axis === "y" ? 1 : 0,
+      axis === "z" ? 1 : 0,
+    );
+    return direction
+      .applyQuaternion(this.group.getWorldQuaternion(new THREE.Quaternion()))
+      .normalize();
+  }
+
+  #onPointerDown = (event: PointerEvent): void => {
+    if (!this.group.visible || event.button !== 0) {
+      return;
+    }
+    this.#setPointer(event);
+    const hit = this.#raycaster.intersectObjects(
+      [this.#forceHandle, ...Object.values(this.#rings)],
+      false,
+    )[0];
+    if (!hit) {
+      return;
+    }
+
+    if (hit.object === this.#forceHandle) {
+      // Drag the handle in the plane facing the camera
+      const normal = this.#camera.getWorldDirection(new THREE.Vector3());
+      this.#drag = {
+        kind: "force",
+        plane: new THREE.Plane().setFromNormalAndCoplanarPoint(
+          normal,
+          hit.point,
+        ),
+      };
+    } else {
+      const axis = hit.object.userData.axis as Axis;
+      const origin = this.group.getWorldPosition(new THREE.Vector3());
+      this.#drag = {
+        kind: "torque",
+        axis,
+        plane: new THREE.Plane().setFromNormalAndCoplanarPoint(
+          this.#worldAxis(axis),
+          origin,
+        ),
+        lastAngle: this.#ringAngle(hit.point, axis),
+      };
+    }
+    event.stopImmediatePropagation();
+    this.#controls.enabled = false;
+    this.#domElement.setPointerCapture(event.pointerId);
+  };
+
+  #onPointerMove = (event: PointerEvent): void => {
+    const drag = this.#drag;
+    if (!drag) {
+      return;
+    }
+    this.#setPointer(event);
+    const point = this.#raycaster.ray.intersectPlane(
+      drag.plane,
+      new THREE.Vector3(),
+    );
+    if (!point) {
+      return;
+    }
+
+    const { forceScale, recentMax, forceClamp, torqueClamp, torqueGain } =
+      this.#options;
+    const force = { ...this.#wrench.force };
+    const torque = { ...this.#wrench.torque };
+    if (drag.kind === "force") {
+      // The handle is the arrow tip, so its distance maps back through the arrow scaling
+      const local = this.group.worldToLocal(point);
+      const magnitude =
+        arrowMagnitude(
+          local.length(),
+          this.#scalingMode(),
+          forceScale,
+          recentMax,
+        ) ?? 0;
+      local.normalize().multiplyScalar(magnitude);
+      AXES.forEach((axis, i) => {
+        force[axis] = clamp(local[axis], forceClamp[i]!);
+      });
+    } else {
+      const angle = this.#ringAngle(point, drag.axis);
+      // Unwrap so that crossing ±π does not jump a full turn
+      let delta = angle - drag.lastAngle;
+      if (delta > Math.PI) {
+        delta -= 2 * Math.PI;
+      } else if (delta < -Math.PI) {
+        delta += 2 * Math.PI;
+      }
+      drag.lastAngle = angle;
+      const i = AXES.indexOf(drag.axis);
+      torque[drag.axis] = clamp(
+        torque[drag.axis] + delta * torqueGain,
+        torqueClamp[i]!,
+      );
+    }
+    this.setWrench({ force, torque });
+    this.onChange?.(this.#wrench, { final: false });
+  };
+
+  #onPointerUp = (event: PointerEvent): void => {
+    if (!this.#drag) {
+      return;
+    }
+    this.#drag = undefined;
+    this.#controls.enabled = true;
+    this.#domElement.releasePointerCapture(event.pointerId);
+    this.onChange?.(this.#wrench, { final: true });
+  };
+}
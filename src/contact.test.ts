@@ -0,0 +1,108 @@
+import {
+  ContactConfig,
+  createDefaultContact,
+  estimateContact,
+  lineOfAction,
+  transformContactEstimate,
+} from "./contact";
+import { Vector3, Wrench } from "./types";
+
+// 10 N pushing down at (0.1, 0, 0.05): τ = r × F = (0, 1, 0)
+const PRESS: Wrench = {
+  force: { x: 0, y: 0, z: -10 },
+  torque: { x: 0, y: 1, z: 0 },
+};
+
+function rounded({ x, y, z }: Vector3): Vector3 {
+  const round = (value: number) => Math.round(value * 1e6) / 1e6 + 0;
+  return { x: round(x), y: round(y), z: round(z) };
+}
+
+function surface(config: Partial<ContactConfig>): ContactConfig {
+  return { ...createDefaultContact(), ...config };
+}
+
+describe("lineOfAction", () => {
+  it("passes through the point of application along the force", () => {
+    const line = lineOfAction(PRESS, 0.5);
+    expect(rounded(line!.origin)).toEqual({ x: 0.1, y: 0, z: 0 });
+    expect(rounded(line!.direction)).toEqual({ x: 0, y: 0, z: -1 });
+  });
+
+  it("ignores the torque along the force", () => {
+    const line = lineOfAction({ ...PRESS, torque: { x: 0, y: 1, z: 3 } }, 0.5);
+    expect(rounded(line!.origin)).toEqual({ x: 0.1, y: 0, z: 0 });
+  });
+
+  it("has no line below the minimum force", () => {
+    expect(lineOfAction(PRESS, 20)).toBeUndefined();
+    expect(
+      lineOfAction(
+        { force: { x: 0, y: 0, z: 0 }, torque: { x: 1, y: 0, z: 0 } },
+        0,
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe("estimateContact", () => {
+  it("gives only the line without a surface", () => {
+    const estimate = estimateContact(PRESS, surface({ surface: "none" }));
+    expect(estimate?.line).toBeDefined();
+    expect(estimate?.contactPoint).toBeUndefined();
+  });
+
+  it("finds the center of pressure on a plane", () => {
+    const estimate = estimateContact(
+      PRESS,
+      surface({ surface: "plane", point: [0, 0, 0.05], direction: [0, 0, 2] }),
+    );
+    expect(rounded(estimate!.contactPoint!)).toEqual({
+      x: 0.1,
+      y: 0,
+      z: 0.05,
+    });
+  });
+
+  it("has no contact point on a plane parallel to the force", () => {
+    const estimate = estimateContact(
+      PRESS,
+      surface({ surface: "plane", direction: [1, 0, 0] }),
+    );
+    expect(estimate?.contactPoint).toBeUndefined();
+  });
+
+  it("enters a cylinder where the force meets its surface", () => {
+    const estimate = estimateContact(
+      PRESS,
+      surface({ surface: "cylinder", direction: [0, 1, 0], radius: 0.2 }),
+    );
+    expect(rounded(estimate!.contactPoint!)).toEqual(
+      rounded({ x: 0.1, y: 0, z: Math.sqrt(0.03) }),
+    );
+  });
+
+  it("has no contact point when the line misses the cylinder", () => {
+    const estimate = estimateContact(
+      PRESS,
+      surface({ surface: "cylinder", direction: [0, 1, 0], radius: 0.05 }),
+    );
+    expect(estimate?.contactPoint).toBeUndefined();
+  });
+});
+
+describe("transformContactEstimate", () => {
+  it("moves the contact point and keeps the line origin closest to the new origin", () => {
+    const estimate = estimateContact(
+      PRESS,
+      surface({ surface: "plane", point: [0, 0, 0.05] }),
+    );
+    const moved = transformContactEstimate(estimate!, {
+      translation: { x: 0, y: 0, z: 2 },
+      rotation: { x: 0, y: 0, z: Math.SQRT1_2, w: Math.SQRT1_2 },
+    });
+    expect(rounded(moved.line.origin)).toEqual({ x: 0, y: 0.1, z: 0 });
+    expect(rounded(moved.line.direction)).toEqual({ x: 0, y: 0, z: -1 });
+    expect(rounded(moved.contactPoint!)).toEqual({ x: 0, y: 0.1, z: 2.05 });
+  });
+});
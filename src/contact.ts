@@ -0,0 +1,177 @@
+import * as THREE from "three";
+
+import { Transform, Vector3, Wrench } from "./types";
+import {
+  fromThreeVector,
+  toThreeQuaternion,
+  toThreeVector,
+} from "./wrenchMath";
+
+export type ContactSurfaceType = "none" | "plane" | "cylinder";
+
+// Known contact surface in the sensor frame, used to locate the contact along the line of action
+export type ContactConfig = {
+  showLineOfAction: boolean;
+  surface: ContactSurfaceType;
+  point: [number, number, number]; // meters, point on the plane or on the cylinder axis
+  direction: [number, number, number]; // plane normal or cylinder axis
+  radius: number; // meters, cylinder only
+  minForce: number; // N, no estimate below this force magnitude
+  color: string;
+};
+
+// Line of action of the force; `origin` is its point closest to the frame origin
+export type LineOfAction = {
+  origin: Vector3;
+  direction: Vector3; // unit vector along the force
+};
+
+export type ContactEstimate = {
+  line: LineOfAction;
+  contactPoint?: Vector3; // intersection with the contact surface, if any
+};
+
+export function createDefaultContact(): ContactConfig {
+  return {
+    showLineOfAction: false,
+    surface: "none",
+    point: [0, 0, 0],
+    direction: [0, 0, 1],
+    radius: 0.02,
+    minForce: 0.5,
+    color: "#00ffff",
+  };
+}
+
+/**
+ * Line of action of a wrench: the points r with r × F = τ⊥, where τ⊥ is the torque perpendicular
+ * to the force. The component of τ along F is a pure couple and does not move the line.
+ */
+export function lineOfAction(
+  wrench: Wrench,
+  minForce: number,
+): LineOfAction | undefined {
+  const force = toThreeVector(wrench.force);
+  const forceSquared = force.lengthSq();
+  if (forceSquared === 0 || Math.sqrt(forceSquared) < minForce) {
+    return undefined;
+  }
+  const origin = new THREE.Vector3()
+    .crossVectors(force, toThreeVector(wrench.torque))
+    .divideScalar(forceSquared);
+  return {
+    origin: fromThreeVector(origin),
+    direction: fromThreeVector(force.normalize()),
+  };
+}
+
+// Parameter along the line where it crosses the plane, undefined when they are parallel
+function intersectPlane(
+  origin: THREE.Vector3,
+  direction: THREE.Vector3,
+  planePoint: THREE.Vector3,
+  normal: THREE.Vector3,
+): number | undefined {
+  const denominator = normal.dot(direction);
+  if (Math.abs(denominator) < 1e-6) {
+    return undefined;
+  }
+  return normal.dot(planePoint.clone().sub(origin)) / denominator;
+}
+
+/**
+ * Parameter along the line where it enters the cylinder. The force applied by the environment
+ * points into the surface, so the entry point is the first of the two intersections.
+ */
+function intersectCylinder(
+  origin: THREE.Vector3,
+  direction: THREE.Vector3,
+  axisPoint: THREE.Vector3,
+  axis: THREE.Vector3,
+  radius: number,
+): number | undefined {
+  // Components perpendicular to the cylinder axis
+  const offset = origin.clone().sub(axisPoint);
+  const offsetPerp = offset.sub(axis.clone().multiplyScalar(offset.dot(axis)));
+  const directionPerp = direction
+    .clone()
+    .sub(axis.clone().multiplyScalar(direction.dot(axis)));
+
+  const a = directionPerp.lengthSq();
+  const b = 2 * offsetPerp.dot(directionPerp);
+  const c = offsetPerp.lengthSq() - radius * radius;
+  const discriminant = b * b - 4 * a * c;
+  if (a < 1e-12 || discriminant < 0) {
+    return undefined;
+  }
+  return (-b - Math.sqrt(discriminant)) / (2 * a);
+}
+
+/**
+ * Line of action and contact point of a sensor-frame wrench. On a plane the contact point is the
+ * center of pressure, where the resultant force acts with no torque about the surface tangents.
+ */
+export function estimateContact(
+  wrench: Wrench,
+  config: ContactConfig,
+): ContactEstimate | undefined {
+  const line = lineOfAction(wrench, config.minForce);
+  if (!line) {
+    return undefined;
+  }
+
+  const origin = toThreeVector(line.origin);
+  const direction = toThreeVector(line.direction);
+  const point = new THREE.Vector3(...config.point);
+  const surfaceDirection = new THREE.Vector3(...config.direction);
+  if (config.surface === "none" || surfaceDirection.lengthSq() === 0) {
+    return { line };
+  }
+  surfaceDirection.normalize();
+
+  const t =
+    config.surface === "plane"
+      ? intersectPlane(origin, direction, point, surfaceDirection)
+      : intersectCylinder(
+          origin,
+          direction,
+          point,
+          surfaceDirection,
+          config.radius,
+        );
+  return {
+    line,
+    contactPoint:
+      t != undefined
+        ? fromThreeVector(origin.add(direction.multiplyScalar(t)))
+        : undefined,
+  };
+}
+
+// Express an estimate made in frame S in frame T, given the pose of S in T
+export function transformContactEstimate(
+  estimate: ContactEstimate,
+  transform: Transform,
+): ContactEstimate {
+  const quaternion = toThreeQuaternion(transform.rotation);
+  const offset = toThreeVector(transform.translation);
+  const transformPoint = (p: Vector3) =>
+    fromThreeVector(toThreeVector(p).applyQuaternion(quaternion).add(offset));
+
+  // Re-anchor the origin so it stays the point closest to the new frame origin
+  const direction = toThreeVector(estimate.line.direction).applyQuaternion(
+    quaternion,
+  );
+  const origin = toThreeVector(transformPoint(estimate.line.origin));
+  origin.sub(direction.clone().multiplyScalar(origin.dot(direction)));
+
+  return {
+    line: {
+      origin: fromThreeVector(origin),
+      direction: fromThreeVector(direction),
+    },
+    contactPoint: estimate.contactPoint
+      ? transformPoint(estimate.contactPoint)
+      : undefined,
+  };
+}
@@ -0,0 +1,63 @@
+import { MessageEvent } from "@foxglove/extension";
+
+import {
+  wrenchStampedToComponents,
+  wrenchStampedToSceneUpdate,
+} from "./converters";
+import { WrenchStampedMessage } from "./types";
+
+function wrenchEvent(
+  stamp: Record<string, number>,
+): MessageEvent<WrenchStampedMessage> {
+  const message = {
+    header: { frame_id: "sensor", stamp },
+    wrench: {
+      force: { x: 3, y: 0, z: 4 },
+      torque: { x: 0, y: 0, z: 0 },
+    },
+  } as unknown as WrenchStampedMessage;
+  return {
+    topic: "/wrench",
+    schemaName: "geometry_msgs/msg/WrenchStamped",
+    receiveTime: { sec: 10, nsec: 0 },
+    message,
+    sizeInBytes: 0,
+  };
+}
+
+describe("wrenchStampedToComponents", () => {
+  it("flattens the wrench with its norms", () => {
+    const event = wrenchEvent({ sec: 1, nsec: 2 });
+    const components = wrenchStampedToComponents(event.message, event);
+    expect(components).toMatchObject({
+      timestamp: { sec: 1, nsec: 2 },
+      frame_id: "sensor",
+      force_x: 3,
+      force_z: 4,
+      force_norm: 5,
+      torque_norm: 0,
+    });
+  });
+
+  it("reads ROS 2 stamps with a nanosec field", () => {
+    const event = wrenchEvent({ sec: 1, nanosec: 500 });
+    expect(wrenchStampedToComponents(event.message, event).timestamp).toEqual({
+      sec: 1,
+      nsec: 500,
+    });
+  });
+});
+
+describe("wrenchStampedToSceneUpdate", () => {
+  it("draws only non-zero vectors in the header frame", () => {
+    const event = wrenchEvent({ sec: 1, nanosec: 500 });
+    const entity = wrenchStampedToSceneUpdate(event.message, event).entities[0];
+    expect(entity?.timestamp).toEqual({ sec: 1, nsec: 500 });
+    expect(entity?.frame_id).toBe("sensor");
+    expect(entity?.id).toBe("/wrench");
+    expect(entity?.arrows).toHaveLength(1);
+    // 5 N at 0.01 m/N, split into shaft and head
+    expect(entity?.arrows[0]?.shaft_length).toBeCloseTo(0.04);
+    expect(entity?.arrows[0]?.head_length).toBeCloseTo(0.01);
+  });
+});
@@ -0,0 +1,121 @@
+import { Immutable, MessageEvent } from "@foxglove/extension";
+import { ArrowPrimitive, Color, SceneUpdate } from "@foxglove/schemas";
+import * as THREE from "three";
+
+import { fromRosStamp } from "./time";
+import { Vector3, WrenchStampedMessage } from "./types";
+import { toThreeVector } from "./wrenchMath";
+
+// Schema of the flat message produced for the Plot panel
+export const WRENCH_COMPONENTS_SCHEMA = "wrench_stamped_panel.WrenchComponents";
+
+// One wrench with every plottable quantity as a top-level field
+export type WrenchComponents = {
+  timestamp: { sec: number; nsec: number };
+  frame_id: string;
+  force_x: number;
+  force_y: number;
+  force_z: number;
+  torque_x: number;
+  torque_y: number;
+  torque_z: number;
+  force_norm: number;
+  torque_norm: number;
+};
+
+// Arrow lengths of the scene update, meters per N and per N·m
+const FORCE_ARROW_SCALE = 0.01;
+const TORQUE_ARROW_SCALE = 0.1;
+
+const FORCE_COLOR: Color = { r: 1, g: 0, b: 0, a: 1 };
+const TORQUE_COLOR: Color = { r: 1, g: 1, b: 0, a: 1 };
+
+// Arrow from the frame origin along `vector`; arrow primitives point along the +X axis of their pose
+function createArrow(
+  vector: Vector3,
+  scale: number,
+  color: Color,
+): ArrowPrimitive | undefined {
+  const direction = toThreeVector(vector);
+  const length = direction.length() * scale;
+  if (length === 0) {
+    return undefined;
+  }
+  const orientation = new THREE.Quaternion().setFromUnitVectors(
+    new THREE.Vector3(1, 0, 0),
+    direction.normalize(),
+  );
+  return {
+    pose: {
+      position: { x: 0, y: 0, z: 0 },
+      orientation: {
+        x: orientation.x,
+        y: orientation.y,
+        z: orientation.z,
+        w: orientation.w,
+      },
+    },
+    shaft_length: length * 0.8,
+    shaft_diameter: length * 0.05,
+    head_length: length * 0.2,
+    head_diameter: length * 0.1,
+    color,
+  };
+}
+
+/**
+ * Force and torque arrows of a WrenchStamped message in its header frame, for the built-in 3D
+ * panel. The entity is keyed by topic so every message replaces the previous arrows.
+ */
+export function wrenchStampedToSceneUpdate(
+  message: WrenchStampedMessage,
+  event: Immutable<MessageEvent<WrenchStampedMessage>>,
+): SceneUpdate {
+  const { header, wrench } = message;
+  const timestamp = fromRosStamp(header.stamp, event.receiveTime);
+  const arrows = [
+    createArrow(wrench.force, FORCE_ARROW_SCALE, FORCE_COLOR),
+    createArrow(wrench.torque, TORQUE_ARROW_SCALE, TORQUE_COLOR),
+  ].filter((arrow): arrow is ArrowPrimitive => arrow != undefined);
+  return {
+    deletions: [],
+    entities: [
+      {
+        timestamp,
+        frame_id: header.frame_id,
+        id: event.topic,
+        lifetime: { sec: 0, nsec: 0 },
+        frame_locked: true,
+        metadata: [],
+        arrows,
+        cubes: [],
+        spheres: [],
+        cylinders: [],
+        lines: [],
+        triangles: [],
+        texts: [],
+        models: [],
+      },
+    ],
+  };
+}
+
+export function wrenchStampedToComponents(
+  message: WrenchStampedMessage,
+  event: Immutable<MessageEvent<WrenchStampedMessage>>,
+): WrenchComponents {
+  const { header, wrench } = message;
+  const { force, torque } = wrench;
+  return {
+    timestamp: fromRosStamp(header.stamp, event.receiveTime),
+    frame_id: header.frame_id,
+    force_x: force.x,
+    force_y: force.y,
+    force_z: force.z,
+    torque_x: torque.x,
+    torque_y: torque.y,
+    torque_z: torque.z,
+    force_norm: Math.hypot(force.x, force.y, force.z),
+    torque_norm: Math.hypot(torque.x, torque.y, torque.z),
+  };
+}
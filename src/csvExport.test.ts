@@ -0,0 +1,100 @@
+import {
+  Immutable,
+  MessageEvent,
+  PanelExtensionContext,
+} from "@foxglove/extension";
+
+import { exportWrenchCsv, readMessageRange } from "./csvExport";
+
+function event(topic: string, sec: number, message: unknown): MessageEvent {
+  return {
+    topic,
+    schemaName: "",
+    receiveTime: { sec, nsec: 0 },
+    message,
+    sizeInBytes: 0,
+  };
+}
+
+const MESSAGES: MessageEvent[] = [
+  event("/tf_static", 0, {
+    transforms: [
+      {
+        header: { frame_id: "world", stamp: { sec: 0, nsec: 0 } },
+        child_frame_id: "sensor",
+        transform: {
+          translation: { x: 1, y: 2, z: 3 },
+          rotation: { x: 0, y: 0, z: 0, w: 1 },
+        },
+      },
+    ],
+  }),
+  event("/wrench", 1, {
+    header: { frame_id: "sensor", stamp: { sec: 1, nanosec: 500 } },
+    wrench: { force: { x: 3, y: 0, z: 4 }, torque: { x: 0, y: 0, z: 0 } },
+  }),
+  event("/wrench", 2, {
+    header: { frame_id: "other", stamp: { sec: 2, nanosec: 0 } },
+    wrench: { force: { x: 1, y: 0, z: 0 }, torque: { x: 0, y: 2, z: 0 } },
+  }),
+  event("/wrench", 5, {
+    header: { frame_id: "sensor", stamp: { sec: 5, nanosec: 0 } },
+    wrench: { force: { x: 0, y: 0, z: 0 }, torque: { x: 0, y: 0, z: 0 } },
+  }),
+];
+
+// Data source that delivers the messages of a topic in two batches
+function createContext(): PanelExtensionContext {
+  return {
+    UNSTABLE_subscribeMessageRange: ({ topic, onReset }) => {
+      const events = MESSAGES.filter((message) => message.topic === topic);
+      void onReset(
+        (async function* (): AsyncIterable<Immutable<MessageEvent[]>> {
+          yield events.slice(0, 1);
+          yield events.slice(1);
+        })(),
+      );
+      return jest.fn();
+    },
+  } as Partial<PanelExtensionContext> as PanelExtensionContext;
+}
+
+describe("readMessageRange", () => {
+  it("keeps the messages logged within the range", async () => {
+    const messages = await readMessageRange(createContext(), "/wrench", {
+      start: 1e9,
+      end: 2e9,
+    });
+    expect(messages.map((message) => message.receiveTime.sec)).toEqual([1, 2]);
+  });
+
+  it("fails when the data source cannot read a range", async () => {
+    await expect(
+      readMessageRange({} as PanelExtensionContext, "/wrench", {
+        start: 0,
+        end: 1,
+      }),
+    ).rejects.toThrow(
+      "The data source does not support reading a message range",
+    );
+  });
+});
+
+describe("exportWrenchCsv", () => {
+  it("writes one row per wrench message with the sensor pose", async () => {
+    const csv = await exportWrenchCsv(createContext(), {
+      topic: "/wrench",
+      tfTopics: ["/tf_static"],
+      fixedFrame: "world",
+      unstampedFrame: "sensor",
+      start: { sec: 0, nsec: 0 },
+      end: { sec: 3, nsec: 0 },
+    });
+    const [header, ...rows] = csv.trimEnd().split("\n");
+    expect(header?.split(",")).toHaveLength(18);
+    expect(rows).toEqual([
+      "1.000000500,1.000000000,sensor,3,0,4,0,0,0,5,0,1,2,3,0,0,0,1",
+      "2.000000000,2.000000000,other,1,0,0,0,2,0,1,2,,,,,,,",
+    ]);
+  });
+});
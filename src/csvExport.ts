@@ -0,0 +1,159 @@
+import {
+  Immutable,
+  MessageEvent,
+  PanelExtensionContext,
+  Time,
+} from "@foxglove/extension";
+
+import { TFBuffer } from "./TFBuffer";
+import { formatStamp, stampToNanoseconds } from "./time";
+import { TFMessage } from "./types";
+import { toSourceWrenchMessage } from "./wrenchSources";
+
+const CSV_HEADER = [
+  "stamp",
+  "log_time",
+  "frame_id",
+  "force_x",
+  "force_y",
+  "force_z",
+  "torque_x",
+  "torque_y",
+  "torque_z",
+  "force_norm",
+  "torque_norm",
+  "position_x",
+  "position_y",
+  "position_z",
+  "orientation_x",
+  "orientation_y",
+  "orientation_z",
+  "orientation_w",
+];
+
+/**
+ * Read every message of `topic` between `start` and `end` (nanoseconds of log time, inclusive)
+ * from the data source. Resolves once the range iterator is exhausted.
+ */
+export async function readMessageRange(
+  context: PanelExtensionContext,
+  topic: string,
+  range: { start: number; end: number },
+): Promise<Immutable<MessageEvent>[]> {
+  const subscribeMessageRange = context.UNSTABLE_subscribeMessageRange;
+  if (!subscribeMessageRange) {
+    throw new Error("The data source does not support reading a message range");
+  }
+
+  return await new Promise((resolve, reject) => {
+    const messages: Immutable<MessageEvent>[] = [];
+    const unsubscribe = subscribeMessageRange({
+      topic,
+      onReset: async (batchIterator) => {
+        messages.length = 0;
+        try {
+          for await (const batch of batchIterator) {
+            batch.forEach((event) => {
+              const logTime = stampToNanoseconds(event.receiveTime);
+              if (logTime >= range.start && logTime <= range.end) {
+                messages.push(event);
+              }
+            });
+          }
+          resolve(messages);
+        } catch (error) {
+          reject(error instanceof Error ? error : new Error(String(error)));
+        } finally {
+          unsubscribe();
+        }
+      },
+    });
+  });
+}
+
+/**
+ * CSV with one row per wrench message: stamp, frame, raw components, magnitudes and the pose of the
+ * sensor frame in `fixedFrame` at the message stamp. Pose columns are empty when TF has no
+ * transform for that time.
+ */
+export async function exportWrenchCsv(
+  context: PanelExtensionContext,
+  options: {
+    topic: string;
+    tfTopics: readonly string[];
+    fixedFrame: string;
+    unstampedFrame: string; // frame of messages without a header
+    start: Time;
+    end: Time;
+  },
+): Promise<string> {
+  const range = {
+    start: stampToNanoseconds(options.start),
+    end: stampToNanoseconds(options.end),
+  };
+
+  // Collect the TF tree over the whole data source so lookups never fall out of the buffer
+  const tfBuffer = new TFBuffer(Infinity);
+  for (const tfTopic of options.tfTopics) {
+    const tfMessages = await readMessageRange(context, tfTopic, {
+      start: -Infinity,
+      end: Infinity,
+    });
+    const isStatic = tfTopic.endsWith("tf_static");
+    tfMessages.forEach((event) => {
+      (event.message as TFMessage).transforms.forEach((transform) => {
+        tfBuffer.addTransform(transform, { isStatic });
+      });
+    });
+  }
+
+  const wrenchMessages = await readMessageRange(context, options.topic, range);
+  const rows: string[] = [];
+  wrenchMessages.forEach((event) => {
+    const message = toSourceWrenchMessage(event, options.unstampedFrame);
+    if (!message) {
+      return;
+    }
+    const { header, wrench } = message;
+    const { force, torque } = wrench;
+    const pose = tfBuffer.lookupTransform(
+      options.fixedFrame,
+      header.frame_id,
+      stampToNanoseconds(header.stamp),
+    ).transform;
+    rows.push(
+      [
+        formatStamp(header.stamp),
+        formatStamp(event.receiveTime),
+        header.frame_id,
+        force.x,
+        force.y,
+        force.z,
+        torque.x,
+        torque.y,
+        torque.z,
+        Math.hypot(force.x, force.y, force.z),
+        Math.hypot(torque.x, torque.y, torque.z),
+        pose?.translation.x ?? "",
+        pose?.translation.y ?? "",
+        pose?.translation.z ?? "",
+        pose?.rotation.x ?? "",
+        pose?.rotation.y ?? "",
+        pose?.rotation.z ?? "",
+        pose?.rotation.w ?? "",
+      ].join(","),
+    );
+  });
+
+  return [CSV_HEADER.join(","), ...rows].join("\n") + "\n";
+}
+
+// Offer `text` to the user as a file download
+export function downloadTextFile(filename: string, text: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type: "text/csv" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,64 @@
+import { FilterConfig, createWrenchFilter } from "./filters";
+import { Wrench } from "./types";
+
+const BASE_CONFIG: FilterConfig = {
+  type: "none",
+  windowSize: 3,
+  cutoffFrequency: 1,
+  forceDeadband: 0.5,
+  torqueDeadband: 0.05,
+};
+
+// Wrench with every force component `force` and every torque component `torque`
+function uniform(force: number, torque = 0): Wrench {
+  return {
+    force: { x: force, y: force, z: force },
+    torque: { x: torque, y: torque, z: torque },
+  };
+}
+
+describe("createWrenchFilter", () => {
+  it("returns no filter for type none", () => {
+    expect(createWrenchFilter(BASE_CONFIG)).toBeUndefined();
+  });
+
+  it("averages the last window of samples", () => {
+    const filter = createWrenchFilter({
+      ...BASE_CONFIG,
+      type: "movingAverage",
+    });
+    const outputs = [3, 6, 9, 12].map(
+      (value, i) => filter?.update(i, uniform(value)).force.x,
+    );
+    expect(outputs).toEqual([3, 4.5, 6, 9]);
+  });
+
+  it("takes the median of the last window of samples", () => {
+    const filter = createWrenchFilter({ ...BASE_CONFIG, type: "median" });
+    const outputs = [1, 100, 2, 3].map(
+      (value, i) => filter?.update(i, uniform(value)).force.x,
+    );
+    expect(outputs).toEqual([1, 50.5, 2, 3]);
+  });
+
+  it("moves a low-pass output by the step response of the cutoff", () => {
+    const filter = createWrenchFilter({ ...BASE_CONFIG, type: "lowPass" });
+    expect(filter?.update(0, uniform(0)).force.x).toBe(0);
+    const alpha = 1 - Math.exp(-2 * Math.PI * 0.1);
+    expect(filter?.update(0.1, uniform(1)).force.x).toBeCloseTo(alpha);
+    // Samples out of order restart the filter instead of extrapolating back
+    expect(filter?.update(0.05, uniform(2)).force.x).toBe(2);
+  });
+
+  it("zeroes components inside the deadband", () => {
+    const filter = createWrenchFilter({ ...BASE_CONFIG, type: "deadband" });
+    const result = filter?.update(0, {
+      force: { x: 0.4, y: -0.6, z: 1 },
+      torque: { x: 0.01, y: -0.1, z: 0 },
+    });
+    expect(result).toEqual({
+      force: { x: 0, y: -0.6, z: 1 },
+      torque: { x: 0, y: -0.1, z: 0 },
+    });
+  });
+});
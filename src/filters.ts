@@ -0,0 +1,149 @@
+import { Vector3, Wrench } from "./types";
+
+export type FilterType =
+  | "none"
+  | "movingAverage"
+  | "lowPass"
+  | "median"
+  | "deadband";
+
+export type FilterConfig = {
+  type: FilterType;
+  windowSize: number; // samples, moving average and median
+  cutoffFrequency: number; // Hz, exponential low-pass
+  forceDeadband: number; // N
+  torqueDeadband: number; // N·m
+};
+
+// Stateful filter applied to consecutive samples of one wrench topic
+export interface WrenchFilter {
+  update(time: number, wrench: Wrench): Wrench;
+}
+
+const COMPONENTS = ["x", "y", "z"] as const;
+
+// Zero the components of `v` whose magnitude is below `threshold`
+function applyDeadband(v: Vector3, threshold: number): Vector3 {
+  return {
+    x: Math.abs(v.x) < threshold ? 0 : v.x,
+    y: Math.abs(v.y) < threshold ? 0 : v.y,
+    z: Math.abs(v.z) < threshold ? 0 : v.z,
+  };
+}
+
+// Move `from` towards `to` by `alpha` in [0, 1]
+function lerpVector(from: Vector3, to: Vector3, alpha: number): Vector3 {
+  return {
+    x: from.x + alpha * (to.x - from.x),
+    y: from.y + alpha * (to.y - from.y),
+    z: from.z + alpha * (to.z - from.z),
+  };
+}
+
+// Combine the same component of several wrenches with `reduce`
+function reduceWrenches(
+  wrenches: readonly Wrench[],
+  reduce: (values: number[]) => number,
+): Wrench {
+  const reduceVector = (key: "force" | "torque"): Vector3 => {
+    const result = { x: 0, y: 0, z: 0 };
+    COMPONENTS.forEach((axis) => {
+      result[axis] = reduce(wrenches.map((wrench) => wrench[key][axis]));
+    });
+    return result;
+  };
+  return { force: reduceVector("force"), torque: reduceVector("torque") };
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]!
+    : (sorted[middle - 1]! + sorted[middle]!) / 2;
+}
+
+// Filter over the last `windowSize` samples
+class WindowFilter implements WrenchFilter {
+  #window: Wrench[] = [];
+  #windowSize: number;
+  #reduce: (values: number[]) => number;
+
+  constructor(windowSize: number, reduce: (values: number[]) => number) {
+    this.#windowSize = Math.max(1, Math.round(windowSize));
+    this.#reduce = reduce;
+  }
+
+  update(_time: number, wrench: Wrench): Wrench {
+    this.#window.push(wrench);
+    if (this.#window.length > this.#windowSize) {
+      this.#window.shift();
+    }
+    return reduceWrenches(this.#window, this.#reduce);
+  }
+}
+
+// First order exponential low-pass, alpha derived from the sample interval and cutoff frequency
+class LowPassFilter implements WrenchFilter {
+  #cutoffFrequency: number;
+  #last?: { time: number; wrench: Wrench };
+
+  constructor(cutoffFrequency: number) {
+    this.#cutoffFrequency = cutoffFrequency;
+  }
+
+  update(time: number, wrench: Wrench): Wrench {
+    const last = this.#last;
+    if (!last || time <= last.time || this.#cutoffFrequency <= 0) {
+      this.#last = { time, wrench };
+      return wrench;
+    }
+    const alpha =
+      1 - Math.exp(-2 * Math.PI * this.#cutoffFrequency * (time - last.time));
+    const filtered: Wrench = {
+      force: lerpVector(last.wrench.force, wrench.force, alpha),
+      torque: lerpVector(last.wrench.torque, wrench.torque, alpha),
+    };
+    this.#last = { time, wrench: filtered };
+    return filtered;
+  }
+}
+
+// Zero every component whose magnitude is below the deadband
+class DeadbandFilter implements WrenchFilter {
+  #forceDeadband: number;
+  #torqueDeadband: number;
+
+  constructor(forceDeadband: number, torqueDeadband: number) {
+    this.#forceDeadband = forceDeadband;
+    this.#torqueDeadband = torqueDeadband;
+  }
+
+  update(_time: number, wrench: Wrench): Wrench {
+    return {
+      force: applyDeadband(wrench.force, this.#forceDeadband),
+      torque: applyDeadband(wrench.torque, this.#torqueDeadband),
+    };
+  }
+}
+
+export function createWrenchFilter(
+  config: FilterConfig,
+): WrenchFilter | undefined {
+  switch (config.type) {
+    case "none":
+      return undefined;
+    case "movingAverage":
+      return new WindowFilter(config.windowSize, mean);
+    case "median":
+      return new WindowFilter(config.windowSize, median);
+    case "lowPass":
+      return new LowPassFilter(config.cutoffFrequency);
+    case "deadband":
+      return new DeadbandFilter(config.forceDeadband, config.torqueDeadband);
+  }
+}
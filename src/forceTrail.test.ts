@@ -0,0 +1,91 @@
+import * as THREE from "three";
+
+import {
+  createDirectionHeatMap,
+  createTrail,
+  updateDirectionHeatMap,
+  updateTrail,
+} from "./forceTrail";
+import { toThreeVector } from "./wrenchMath";
+
+describe("updateTrail", () => {
+  const options = {
+    now: 10,
+    duration: 2,
+    color: new THREE.Color(1, 0, 0),
+    tip: toThreeVector,
+  };
+
+  it("draws the samples of the last duration and fades them out", () => {
+    const line = createTrail();
+    updateTrail(
+      line,
+      [7, 8, 9, 10].map((time) => ({ time, force: { x: time, y: 0, z: 0 } })),
+      { ...options, fade: true },
+    );
+    expect(line.geometry.drawRange.count).toBe(3);
+    const positions = line.geometry.getAttribute("position");
+    const colors = line.geometry.getAttribute("color");
+    expect([0, 1, 2].map((i) => positions.getX(i))).toEqual([8, 9, 10]);
+    expect([0, 1, 2].map((i) => colors.getW(i))).toEqual([0, 0.5, 1]);
+  });
+
+  it("keeps the tips opaque without fading", () => {
+    const line = createTrail();
+    updateTrail(line, [{ time: 9, force: { x: 1, y: 0, z: 0 } }], {
+      ...options,
+      fade: false,
+    });
+    expect(line.geometry.getAttribute("color").getW(0)).toBe(1);
+  });
+
+  it("grows the buffers when the trail outgrows them", () => {
+    const line = createTrail();
+    const samples = Array.from({ length: 1000 }, (_, i) => ({
+      time: 9 + i / 1000,
+      force: { x: i, y: 0, z: 0 },
+    }));
+    updateTrail(line, samples, { ...options, fade: false });
+    expect(line.geometry.drawRange.count).toBe(1000);
+    expect(line.geometry.getAttribute("position").getX(999)).toBe(999);
+  });
+});
+
+describe("updateDirectionHeatMap", () => {
+  it("colors the vertex the forces point through red and the rest blue", () => {
+    const mesh = createDirectionHeatMap();
+    const direction = new THREE.Vector3(1, 1, 0).normalize();
+    updateDirectionHeatMap(
+      mesh,
+      [
+        { x: 3, y: 3, z: 0 },
+        { x: 0.1, y: 0, z: 0 }, // below the minimum force
+      ],
+      0.5,
+    );
+
+    const positions = mesh.geometry.getAttribute("position");
+    const colors = mesh.geometry.getAttribute("color");
+    const vertex = new THREE.Vector3();
+    let nearest = 0;
+    for (let i = 0; i < positions.count; i++) {
+      vertex.fromBufferAttribute(positions, i);
+      const nearestVertex = new THREE.Vector3().fromBufferAttribute(
+        positions,
+        nearest,
+      );
+      if (vertex.distanceTo(direction) < nearestVertex.distanceTo(direction)) {
+        nearest = i;
+      }
+    }
+    expect(
+      new THREE.Color().fromBufferAttribute(colors, nearest).getHex(),
+    ).toBe(0xff0000);
+    const hexes = Array.from({ length: colors.count }, (_, i) =>
+      new THREE.Color().fromBufferAttribute(colors, i).getHex(),
+    );
+    expect(hexes.filter((hex) => hex === 0x0000ff)).toHaveLength(
+      colors.count - 1,
+    );
+  });
+});
@@ -0,0 +1,168 @@
+import * as THREE from "three";
+
+import { magnitudeColor } from "./arrowScaling";
+import { Vector3 } from "./types";
+
+// Force of one past update, time in seconds
+export type TrailSample = {
+  time: number;
+  force: Vector3;
+};
+
+const INITIAL_TRAIL_CAPACITY = 256; // vertices
+
+// Resolution of the direction heat map sphere
+const HEAT_MAP_WIDTH_SEGMENTS = 48;
+const HEAT_MAP_HEIGHT_SEGMENTS = 24;
+
+// Trail vertices with positions and RGBA colors, drawn up to the draw range
+function createTrailGeometry(capacity: number): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry();
+  const positions = new THREE.BufferAttribute(
+    new Float32Array(capacity * 3),
+    3,
+  );
+  const colors = new THREE.BufferAttribute(new Float32Array(capacity * 4), 4);
+  positions.setUsage(THREE.DynamicDrawUsage);
+  colors.setUsage(THREE.DynamicDrawUsage);
+  geometry.setAttribute("position", positions);
+  geometry.setAttribute("color", colors);
+  geometry.setDrawRange(0, 0);
+  return geometry;
+}
+
+export function createTrail(): THREE.Line {
+  const line = new THREE.Line(
+    createTrailGeometry(INITIAL_TRAIL_CAPACITY),
+    new THREE.LineBasicMaterial({
+      vertexColors: true,
+      transparent: true,
+      depthWrite: false,
+    }),
+  );
+  line.visible = false;
+  return line;
+}
+
+/**
+ * Connect the arrow tips of the samples of the last `duration` seconds, oldest first. With `fade`
+ * the opacity falls linearly from the newest tip to zero at `duration` seconds old.
+ */
+export function updateTrail(
+  line: THREE.Line,
+  samples: readonly TrailSample[],
+  options: {
+    now: number; // seconds
+    duration: number; // seconds
+    fade: boolean;
+    color: THREE.Color;
+    tip: (force: Vector3) => THREE.Vector3; // arrow tip of a force, meters
+  },
+): void {
+  const { now, duration, fade, color, tip } = options;
+  let first = 0;
+  while (first < samples.length && samples[first]!.time < now - duration) {
+    first++;
+  }
+  const count = samples.length - first;
+
+  // The buffers are written in place and only replaced, at twice the size or more, when the
+  // trail outgrows them
+  let positions = line.geometry.getAttribute(
+    "position",
+  ) as THREE.BufferAttribute;
+  if (count > positions.count) {
+    line.geometry.dispose();
+    line.geometry = createTrailGeometry(Math.max(count, positions.count * 2));
+    positions = line.geometry.getAttribute("position") as THREE.BufferAttribute;
+  }
+  const colors = line.geometry.getAttribute("color") as THREE.BufferAttribute;
+  for (let i = 0; i < count; i++) {
+    const sample = samples[first + i]!;
+    const point = tip(sample.force);
+    positions.setXYZ(i, point.x, point.y, point.z);
+    const alpha = fade ? 1 - (now - sample.time) / duration : 1;
+    colors.setXYZW(i, color.r, color.g, color.b, Math.max(alpha, 0));
+  }
+  positions.needsUpdate = true;
+  colors.needsUpdate = true;
+  line.geometry.setDrawRange(0, count);
+  line.geometry.computeBoundingSphere();
+}
+
+export function createDirectionHeatMap(): THREE.Mesh {
+  const geometry = new THREE.SphereGeometry(
+    1,
+    HEAT_MAP_WIDTH_SEGMENTS,
+    HEAT_MAP_HEIGHT_SEGMENTS,
+  );
+  geometry.setAttribute(
+    "color",
+    new THREE.BufferAttribute(
+      new Float32Array(geometry.getAttribute("position").count * 3),
+      3,
+    ),
+  );
+  const mesh = new THREE.Mesh(
+    geometry,
+    new THREE.MeshBasicMaterial({
+      vertexColors: true,
+      transparent: true,
+      opacity: 0.6,
+      depthWrite: false,
+      side: THREE.DoubleSide,
+    }),
+  );
+  mesh.visible = false;
+  return mesh;
+}
+
+/**
+ * Color the unit sphere by how often the force pointed through each vertex, from blue for never
+ * to red for the most common direction. Each direction counts for the nearest vertex of the
+ * latitude/longitude grid. Forces below `minForce` have no reliable direction and are skipped.
+ */
+export function updateDirectionHeatMap(
+  mesh: THREE.Mesh,
+  forces: readonly Vector3[],
+  minForce: number,
+): void {
+  const geometry = mesh.geometry as THREE.SphereGeometry;
+  const { widthSegments, heightSegments } = geometry.parameters;
+  const rowLength = widthSegments + 1;
+  const counts = new Float32Array(rowLength * (heightSegments + 1));
+
+  // Vertex (ix, iy) of the sphere points along
+  // (-cos(2πu) sin(πv), cos(πv), sin(2πu) sin(πv)) with u = ix / widthSegments, v = iy / heightSegments
+  forces.forEach(({ x, y, z }) => {
+    const magnitude = Math.hypot(x, y, z);
+    if (magnitude === 0 || magnitude < minForce) {
+      return;
+    }
+    const v = Math.acos(Math.min(Math.max(y / magnitude, -1), 1)) / Math.PI;
+    let u = Math.atan2(z, -x) / (2 * Math.PI);
+    if (u < 0) {
+      u += 1;
+    }
+    const ix = Math.round(u * widthSegments) % widthSegments;
+    const iy = Math.round(v * heightSegments);
+    const index = iy * rowLength + ix;
+    counts[index] = counts[index]! + 1;
+  });
+
+  // The last column of every row repeats the first one
+  let max = 0;
+  for (let iy = 0; iy <= heightSegments; iy++) {
+    counts[iy * rowLength + widthSegments] = counts[iy * rowLength]!;
+    for (let ix = 0; ix < widthSegments; ix++) {
+      max = Math.max(max, counts[iy * rowLength + ix]!);
+    }
+  }
+
+  const colors = geometry.getAttribute("color") as THREE.BufferAttribute;
+  counts.forEach((count, i) => {
+    const color = magnitudeColor(count, max);
+    colors.setXYZ(i, color.r, color.g, color.b);
+  });
+  colors.needsUpdate = true;
+}
@@ -1,7 +1,32 @@
 import { ExtensionContext } from "@foxglove/extension";
 
 import { initExamplePanel } from "./WrenchStampedPanel";
+import {
+  WRENCH_COMPONENTS_SCHEMA,
+  wrenchStampedToComponents,
+  wrenchStampedToSceneUpdate,
+} from "./converters";
+import { WrenchStampedMessage } from "./types";
+
+// ROS 1 and ROS 2 names of the wrench schema
+const WRENCH_STAMPED_SCHEMAS = [
+  "geometry_msgs/WrenchStamped",
+  "geometry_msgs/msg/WrenchStamped",
+];
 
 export function activate(extensionContext: ExtensionContext): void {
   extensionContext.registerPanel({ name: "WrenchStamped ", initPanel: initExamplePanel });
+
+  WRENCH_STAMPED_SCHEMAS.forEach((fromSchemaName) => {
+    extensionContext.registerMessageConverter<WrenchStampedMessage>({
+      fromSchemaName,
+      toSchemaName: "foxglove.SceneUpdate",
+      converter: wrenchStampedToSceneUpdate,
+    });
+    extensionContext.registerMessageConverter<WrenchStampedMessage>({
+      fromSchemaName,
+      toSchemaName: WRENCH_COMPONENTS_SCHEMA,
+      converter: wrenchStampedToComponents,
+    });
+  });
 }
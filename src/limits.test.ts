@@ -0,0 +1,50 @@
+import { createDefaultLimits, evaluateLimits, worstLevel } from "./limits";
+import { Wrench } from "./types";
+
+const WRENCH: Wrench = {
+  force: { x: -12, y: 3, z: 4 },
+  torque: { x: 0.5, y: 0, z: 0 },
+};
+
+describe("evaluateLimits", () => {
+  it("checks nothing while disabled", () => {
+    const limits = createDefaultLimits();
+    limits.channels.fx = { warning: 1, critical: 2 };
+    const result = evaluateLimits(WRENCH, limits);
+    expect(result.channels.fx).toBe("ok");
+    expect(result.force).toBe("ok");
+  });
+
+  it("compares the absolute value of each channel with its thresholds", () => {
+    const limits = createDefaultLimits();
+    limits.enabled = true;
+    limits.channels.fx = { warning: 10, critical: 15 };
+    limits.channels.fy = { warning: 3 };
+    limits.channels.forceNorm = { critical: 13 };
+    limits.channels.tx = { warning: 1 };
+    const result = evaluateLimits(WRENCH, limits);
+    expect(result.channels.fx).toBe("warning");
+    expect(result.channels.fy).toBe("warning");
+    expect(result.channels.fz).toBe("ok");
+    expect(result.channels.forceNorm).toBe("critical");
+    expect(result.channels.tx).toBe("ok");
+  });
+
+  it("reports the worst level of the force and torque channels", () => {
+    const limits = createDefaultLimits();
+    limits.enabled = true;
+    limits.channels.fz = { warning: 2, critical: 4 };
+    limits.channels.tx = { warning: 0.5 };
+    const result = evaluateLimits(WRENCH, limits);
+    expect(result.force).toBe("critical");
+    expect(result.torque).toBe("warning");
+  });
+});
+
+describe("worstLevel", () => {
+  it("orders ok, warning and critical", () => {
+    expect(worstLevel("ok", "warning")).toBe("warning");
+    expect(worstLevel("critical", "warning")).toBe("critical");
+    expect(worstLevel("ok", "ok")).toBe("ok");
+  });
+});
@@ -0,0 +1,74 @@
+import { Wrench } from "./types";
+import { WRENCH_CHANNELS, WrenchChannel } from "./wrenchMath";
+
+export type LimitLevel = "ok" | "warning" | "critical";
+
+// Thresholds on the absolute value of one channel; unset thresholds are not checked
+export type ChannelLimit = {
+  warning?: number;
+  critical?: number;
+};
+
+export type LimitsConfig = {
+  enabled: boolean;
+  warningColor: string;
+  criticalColor: string;
+  channels: Record<WrenchChannel, ChannelLimit>;
+};
+
+export type LimitResult = {
+  channels: Record<WrenchChannel, LimitLevel>;
+  force: LimitLevel; // worst level of the force channels
+  torque: LimitLevel; // worst level of the torque channels
+};
+
+const LEVEL_RANK: Record<LimitLevel, number> = {
+  ok: 0,
+  warning: 1,
+  critical: 2,
+};
+
+export function worstLevel(a: LimitLevel, b: LimitLevel): LimitLevel {
+  return LEVEL_RANK[a] >= LEVEL_RANK[b] ? a : b;
+}
+
+export function createDefaultLimits(): LimitsConfig {
+  const channels = {} as Record<WrenchChannel, ChannelLimit>;
+  WRENCH_CHANNELS.forEach(({ key }) => {
+    channels[key] = {};
+  });
+  return {
+    enabled: false,
+    warningColor: "#ffa500",
+    criticalColor: "#ff00ff",
+    channels,
+  };
+}
+
+export function evaluateLimits(
+  wrench: Wrench,
+  limits: LimitsConfig,
+): LimitResult {
+  const result: LimitResult = {
+    channels: {} as Record<WrenchChannel, LimitLevel>,
+    force: "ok",
+    torque: "ok",
+  };
+  WRENCH_CHANNELS.forEach(({ key, isForce, value }) => {
+    const magnitude = Math.abs(value(wrench));
+    const { warning, critical } = limits.channels[key];
+    let level: LimitLevel = "ok";
+    if (limits.enabled && critical != undefined && magnitude >= critical) {
+      level = "critical";
+    } else if (limits.enabled && warning != undefined && magnitude >= warning) {
+      level = "warning";
+    }
+    result.channels[key] = level;
+    if (isForce) {
+      result.force = worstLevel(result.force, level);
+    } else {
+      result.torque = worstLevel(result.torque, level);
+    }
+  });
+  return result;
+}
@@ -0,0 +1,84 @@
+import { WrenchIntegrator } from "./mechanics";
+import { Transform, Wrench } from "./types";
+
+function wrench(
+  force: [number, number, number],
+  torque: [number, number, number] = [0, 0, 0],
+): Wrench {
+  return {
+    force: { x: force[0], y: force[1], z: force[2] },
+    torque: { x: torque[0], y: torque[1], z: torque[2] },
+  };
+}
+
+// Pose at `x` meters along the fixed x axis, turned `angle` radians about z
+function pose(x: number, angle = 0): Transform {
+  return {
+    translation: { x, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: Math.sin(angle / 2), w: Math.cos(angle / 2) },
+  };
+}
+
+describe("WrenchIntegrator", () => {
+  it("has no result before the first sample", () => {
+    expect(new WrenchIntegrator().result()).toBeUndefined();
+  });
+
+  it("integrates the impulse with the trapezoidal rule", () => {
+    const integrator = new WrenchIntegrator();
+    integrator.add(0, wrench([0, 0, 0]), undefined);
+    integrator.add(1, wrench([2, 0, 0]), undefined);
+    integrator.add(2, wrench([2, 0, 0]), undefined);
+    const result = integrator.result();
+    expect(result?.impulse.x).toBeCloseTo(3);
+    expect(result?.power).toBeUndefined();
+    expect(result?.work).toBe(0);
+  });
+
+  it("rotates the force into the fixed frame before integrating", () => {
+    const integrator = new WrenchIntegrator();
+    integrator.add(0, wrench([1, 0, 0]), pose(0, Math.PI / 2));
+    integrator.add(1, wrench([1, 0, 0]), undefined);
+    const result = integrator.result();
+    expect(result?.impulse.x).toBeCloseTo(0);
+    expect(result?.impulse.y).toBeCloseTo(1);
+  });
+
+  it("computes power and work from the linear velocity of the sensor", () => {
+    const integrator = new WrenchIntegrator();
+    integrator.add(0, wrench([3, 0, 0]), pose(0));
+    expect(integrator.result()?.power).toBeUndefined();
+    integrator.add(1, wrench([3, 0, 0]), pose(1));
+    integrator.add(2, wrench([3, 0, 0]), pose(2));
+    const result = integrator.result();
+    expect(result?.power).toBeCloseTo(3);
+    expect(result?.work).toBeCloseTo(3);
+  });
+
+  it("computes power from the angular velocity of the sensor", () => {
+    const integrator = new WrenchIntegrator();
+    integrator.add(0, wrench([0, 0, 0], [0, 0, 2]), pose(0, 0));
+    integrator.add(0.5, wrench([0, 0, 0], [0, 0, 2]), pose(0, Math.PI / 4));
+    expect(integrator.result()?.power).toBeCloseTo(Math.PI);
+  });
+
+  it("skips samples that are not newer than the last one", () => {
+    const integrator = new WrenchIntegrator();
+    integrator.add(1, wrench([1, 0, 0]), undefined);
+    integrator.add(2, wrench([1, 0, 0]), undefined);
+    integrator.add(1.5, wrench([100, 0, 0]), undefined);
+    expect(integrator.result()?.impulse.x).toBeCloseTo(1);
+  });
+
+  it("resets impulse and work independently", () => {
+    const integrator = new WrenchIntegrator();
+    integrator.add(0, wrench([1, 0, 0]), pose(0));
+    integrator.add(1, wrench([1, 0, 0]), pose(1));
+    integrator.add(2, wrench([1, 0, 0]), pose(2));
+    integrator.resetImpulse();
+    expect(integrator.result()?.impulse.x).toBe(0);
+    expect(integrator.result()?.work).toBeCloseTo(1);
+    integrator.resetWork();
+    expect(integrator.result()?.work).toBe(0);
+  });
+});
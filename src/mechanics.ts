@@ -0,0 +1,129 @@
+import * as THREE from "three";
+
+import { Transform, Vector3, Wrench } from "./types";
+import {
+  fromThreeVector,
+  toThreeQuaternion,
+  toThreeVector,
+} from "./wrenchMath";
+
+// Integrated and instantaneous mechanical quantities of one wrench source
+export type MechanicsResult = {
+  impulse: Vector3; // N·s, in the fixed frame
+  power?: number; // W, undefined until the sensor velocity is known
+  work: number; // J, done by the measured wrench on the sensor
+};
+
+type PoseSample = {
+  time: number; // seconds
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+};
+
+/**
+ * Impulse, power and work of one sensor from its wrench samples and the poses of its frame in the
+ * fixed frame. The sensor twist is the finite difference of successive poses and is kept until the
+ * next pose arrives, so samples without a pose still count. Integrals use the trapezoidal rule.
+ */
+export class WrenchIntegrator {
+  #impulse = new THREE.Vector3();
+  #work = 0;
+  #lastTime?: number;
+  #lastForce?: THREE.Vector3; // fixed frame
+  #lastPower?: number;
+  #pose?: PoseSample;
+  #linearVelocity?: THREE.Vector3; // sensor frame
+  #angularVelocity?: THREE.Vector3; // sensor frame
+
+  // `wrench` is in the sensor frame, `pose` is the sensor frame in the fixed frame at `time`
+  add(time: number, wrench: Wrench, pose: Transform | undefined): void {
+    if (this.#lastTime != undefined && time <= this.#lastTime) {
+      return;
+    }
+    if (pose) {
+      this.#updateTwist(time, pose);
+    }
+
+    // The force is rotated by the latest known orientation, the sensor frame until the first pose
+    const force = toThreeVector(wrench.force);
+    if (this.#pose) {
+      force.applyQuaternion(this.#pose.quaternion);
+    }
+    const power =
+      this.#linearVelocity && this.#angularVelocity
+        ? toThreeVector(wrench.force).dot(this.#linearVelocity) +
+          toThreeVector(wrench.torque).dot(this.#angularVelocity)
+        : undefined;
+
+    if (this.#lastTime != undefined && this.#lastForce) {
+      const dt = time - this.#lastTime;
+      this.#impulse.addScaledVector(force.clone().add(this.#lastForce), dt / 2);
+      if (power != undefined && this.#lastPower != undefined) {
+        this.#work += ((power + this.#lastPower) * dt) / 2;
+      }
+    }
+    this.#lastTime = time;
+    this.#lastForce = force;
+    this.#lastPower = power;
+  }
+
+  resetImpulse(): void {
+    this.#impulse.set(0, 0, 0);
+  }
+
+  resetWork(): void {
+    this.#work = 0;
+  }
+
+  // Undefined before the first sample
+  result(): MechanicsResult | undefined {
+    if (this.#lastTime == undefined) {
+      return undefined;
+    }
+    return {
+      impulse: fromThreeVector(this.#impulse),
+      power: this.#lastPower,
+      work: this.#work,
+    };
+  }
+
+  // Twist between the previous and the new pose, expressed in the new sensor frame
+  #updateTwist(time: number, pose: Transform): void {
+    const next: PoseSample = {
+      time,
+      position: toThreeVector(pose.translation),
+      quaternion: toThreeQuaternion(pose.rotation),
+    };
+    const previous = this.#pose;
+    this.#pose = next;
+    if (!previous) {
+      return;
+    }
+    const dt = next.time - previous.time;
+    const toSensor = next.quaternion.clone().invert();
+
+    this.#linearVelocity = next.position
+      .clone()
+      .sub(previous.position)
+      .divideScalar(dt)
+      .applyQuaternion(toSensor);
+
+    // Rotation from the previous to the new orientation, in the fixed frame, as an axis and angle
+    const delta = next.quaternion
+      .clone()
+      .multiply(previous.quaternion.clone().invert());
+    if (delta.w < 0) {
+      // Take the shorter way around
+      delta.set(-delta.x, -delta.y, -delta.z, -delta.w);
+    }
+    const angle = 2 * Math.acos(Math.min(delta.w, 1));
+    const sinHalf = Math.sqrt(Math.max(1 - delta.w * delta.w, 0));
+    const axis =
+      sinHalf > 1e-9
+        ? new THREE.Vector3(delta.x, delta.y, delta.z).divideScalar(sinHalf)
+        : new THREE.Vector3();
+    this.#angularVelocity = axis
+      .multiplyScalar(angle / dt)
+      .applyQuaternion(toSensor);
+  }
+}
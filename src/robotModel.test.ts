@@ -0,0 +1,77 @@
+import * as THREE from "three";
+
+import { createRobotModel, resolveMeshUrl } from "./robotModel";
+import { UrdfRobot } from "./urdf";
+
+const IDENTITY = {
+  translation: { x: 0, y: 0, z: 0 },
+  rotation: { x: 0, y: 0, z: 0, w: 1 },
+};
+
+describe("resolveMeshUrl", () => {
+  it("serves package and file paths from the package URL", () => {
+    expect(
+      resolveMeshUrl("package://arm/meshes/tool.stl", "http://host/pkgs/"),
+    ).toBe("http://host/pkgs/arm/meshes/tool.stl");
+    expect(resolveMeshUrl("file:///opt/arm/tool.stl", "http://host")).toBe(
+      "http://host/opt/arm/tool.stl",
+    );
+  });
+
+  it("keeps other URLs", () => {
+    expect(resolveMeshUrl("https://cdn/tool.stl", "http://host")).toBe(
+      "https://cdn/tool.stl",
+    );
+  });
+});
+
+describe("createRobotModel", () => {
+  const robot: UrdfRobot = {
+    name: "arm",
+    links: [
+      {
+        name: "base",
+        visuals: [
+          {
+            origin: { ...IDENTITY, translation: { x: 0, y: 0, z: 0.1 } },
+            geometry: { type: "cylinder", radius: 0.05, length: 0.2 },
+            color: [1, 0, 0, 0.5],
+          },
+        ],
+      },
+      { name: "tool", visuals: [] },
+    ],
+    joints: [
+      {
+        name: "wrist",
+        type: "fixed",
+        parent: "base",
+        child: "tool",
+        origin: IDENTITY,
+      },
+    ],
+  };
+
+  it("builds a hidden group per link with its primitive visuals", () => {
+    const model = createRobotModel(robot, {
+      packageUrl: "",
+      opacity: 0.5,
+      onError: jest.fn(),
+      onLoad: jest.fn(),
+    });
+    expect([...model.links.keys()]).toEqual(["base", "tool"]);
+    expect(model.links.get("base")?.visible).toBe(false);
+    expect(model.parentJoints.get("tool")?.name).toBe("wrist");
+
+    const visual = model.links.get("base")!.children[0]!;
+    expect(visual.position.z).toBeCloseTo(0.1);
+    const mesh = visual.children[0] as THREE.Mesh;
+    expect(mesh.geometry).toBeInstanceOf(THREE.CylinderGeometry);
+    // URDF cylinders are along Z
+    expect(mesh.rotation.x).toBeCloseTo(Math.PI / 2);
+    const material = mesh.material as THREE.MeshStandardMaterial;
+    expect(material.opacity).toBeCloseTo(0.25);
+    expect(material.transparent).toBe(true);
+    model.dispose();
+  });
+});
@@ -0,0 +1,189 @@
+import * as THREE from "three";
+import { ColladaLoader } from "three/examples/jsm/loaders/ColladaLoader";
+import { OBJLoader } from "three/examples/jsm/loaders/OBJLoader";
+import { STLLoader } from "three/examples/jsm/loaders/STLLoader";
+
+import { Transform } from "./types";
+import { UrdfGeometry, UrdfJoint, UrdfRobot } from "./urdf";
+
+const DEFAULT_COLOR: [number, number, number, number] = [0.7, 0.7, 0.7, 1];
+
+// Three.js objects of a loaded robot, one group per link posed in the fixed frame
+export type RobotModel = {
+  group: THREE.Group;
+  links: Map<string, THREE.Group>;
+  parentJoints: Map<string, UrdfJoint>; // joint whose child is the link, keyed by link name
+  dispose: () => void;
+};
+
+function applyTransform(object: THREE.Object3D, transform: Transform): void {
+  const { translation, rotation } = transform;
+  object.position.set(translation.x, translation.y, translation.z);
+  object.quaternion.set(rotation.x, rotation.y, rotation.z, rotation.w);
+}
+
+/**
+ * Resolve a mesh filename to a URL. `package://name/path` becomes `<packageUrl>/name/path` and
+ * `file://` paths are served from `<packageUrl>` as well, since the panel cannot read the disk.
+ */
+export function resolveMeshUrl(filename: string, packageUrl: string): string {
+  const base = packageUrl.replace(/\/+$/, "");
+  if (filename.startsWith("package://")) {
+    return `${base}/${filename.slice("package://".length)}`;
+  }
+  if (filename.startsWith("file://")) {
+    return `${base}${filename.slice("file://".length)}`;
+  }
+  return filename;
+}
+
+async function loadMesh(
+  url: string,
+  material: THREE.Material,
+): Promise<THREE.Object3D> {
+  const extension = url.split(/[?#]/)[0]!.split(".").pop()?.toLowerCase() ?? "";
+  switch (extension) {
+    case "stl": {
+      const geometry = await new STLLoader().loadAsync(url);
+      return new THREE.Mesh(geometry, material);
+    }
+    case "dae": {
+      const collada = await new ColladaLoader().loadAsync(url);
+      // The loader turns Z-up assets into Y-up ones; ROS meshes are shown Z-up
+      collada.scene.rotation.x += Math.PI / 2;
+      return collada.scene;
+    }
+    case "obj": {
+      const group = await new OBJLoader().loadAsync(url);
+      group.traverse((child) => {
+        if (child instanceof THREE.Mesh) {
+          child.material = material;
+        }
+      });
+      return group;
+    }
+    default:
+      throw new Error(`Unsupported mesh format: ${url}`);
+  }
+}
+
+function createPrimitive(
+  geometry: Exclude<UrdfGeometry, { type: "mesh" }>,
+  material: THREE.Material,
+): THREE.Mesh {
+  switch (geometry.type) {
+    case "box":
+      return new THREE.Mesh(new THREE.BoxGeometry(...geometry.size), material);
+    case "sphere":
+      return new THREE.Mesh(
+        new THREE.SphereGeometry(geometry.radius, 24, 16),
+        material,
+      );
+    case "cylinder": {
+      // URDF cylinders are along Z, three.js cylinders along Y
+      const mesh = new THREE.Mesh(
+        new THREE.CylinderGeometry(
+          geometry.radius,
+          geometry.radius,
+          geometry.length,
+          24,
+        ),
+        material,
+      );
+      mesh.rotation.x = Math.PI / 2;
+      return mesh;
+    }
+  }
+}
+
+/**
+ * Build the visuals of every link. Meshes load in the background and `onLoad` is called as each
+ * one is added; failures are reported through `onError` and leave the link without that visual.
+ */
+export function createRobotModel(
+  robot: UrdfRobot,
+  options: {
+    packageUrl: string;
+    opacity: number;
+    onError: (error: string) => void;
+    onLoad: () => void;
+  },
+): RobotModel {
+  const group = new THREE.Group();
+  const links = new Map<string, THREE.Group>();
+  const materials: THREE.Material[] = [];
+  let disposed = false;
+
+  robot.links.forEach((link) => {
+    const linkGroup = new THREE.Group();
+    linkGroup.name = link.name;
+    linkGroup.visible = false;
+    group.add(linkGroup);
+    links.set(link.name, linkGroup);
+
+    link.visuals.forEach((visual) => {
+      const [r, g, b, a] = visual.color ?? DEFAULT_COLOR;
+      const opacity = a * options.opacity;
+      const material = new THREE.MeshStandardMaterial({
+        color: new THREE.Color(r, g, b),
+        transparent: opacity < 1,
+        opacity,
+      });
+      materials.push(material);
+
+      const visualGroup = new THREE.Group();
+      applyTransform(visualGroup, visual.origin);
+      linkGroup.add(visualGroup);
+
+      const { geometry } = visual;
+      if (geometry.type !== "mesh") {
+        visualGroup.add(createPrimitive(geometry, material));
+        return;
+      }
+      const url = resolveMeshUrl(geometry.filename, options.packageUrl);
+      loadMesh(url, material)
+        .then((mesh) => {
+          if (disposed) {
+            return;
+          }
+          mesh.scale.multiply(new THREE.Vector3(...geometry.scale));
+          visualGroup.add(mesh);
+          options.onLoad();
+        })
+        .catch((error: unknown) => {
+          if (!disposed) {
+            options.onError(
+              `${link.name}: ${error instanceof Error ? error.message : `Failed to load ${url}`}`,
+            );
+          }
+        });
+    });
+  });
+
+  // Light the standard materials independently of the rest of the scene
+  group.add(new THREE.AmbientLight(0xffffff, 1.5));
+  const light = new THREE.DirectionalLight(0xffffff, 1.5);
+  light.position.set(1, 1, 2);
+  group.add(light);
+
+  const parentJoints = new Map(
+    robot.joints.map((joint) => [joint.child, joint]),
+  );
+
+  return {
+    group,
+    links,
+    parentJoints,
+    dispose: () => {
+      disposed = true;
+      group.traverse((child) => {
+        if (child instanceof THREE.Mesh) {
+          (child.geometry as THREE.BufferGeometry).dispose();
+        }
+      });
+      materials.forEach((material) => {
+        material.dispose();
+      });
+    },
+  };
+}
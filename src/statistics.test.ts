@@ -0,0 +1,55 @@
+import { WindowMaximum, WrenchStatistics } from "./statistics";
+import { Wrench } from "./types";
+
+function forceX(x: number): Wrench {
+  return { force: { x, y: 0, z: 0 }, torque: { x: 0, y: 0, z: 0 } };
+}
+
+describe("WrenchStatistics", () => {
+  it("has no result before the first sample", () => {
+    expect(new WrenchStatistics().result()).toBeUndefined();
+  });
+
+  it("summarizes every channel", () => {
+    const statistics = new WrenchStatistics();
+    [1, -3, 2, 4].forEach((x, i) => {
+      statistics.add(i * 0.5, forceX(x));
+    });
+    const fx = statistics.result()?.fx;
+    expect(fx?.min).toBe(-3);
+    expect(fx?.max).toBe(4);
+    expect(fx?.mean).toBeCloseTo(1);
+    expect(fx?.std).toBeCloseTo(Math.sqrt(6.5));
+    expect(fx?.rms).toBeCloseTo(Math.sqrt(7.5));
+    expect(fx?.peakToPeak).toBe(7);
+    expect(fx?.peak).toBe(4);
+    expect(fx?.peakTime).toBe(1.5);
+    expect(statistics.result()?.forceNorm.mean).toBeCloseTo(2.5);
+  });
+});
+
+describe("WindowMaximum", () => {
+  it("is zero before the first sample", () => {
+    expect(new WindowMaximum(1).max()).toBe(0);
+  });
+
+  it("forgets values older than the window before the newest sample", () => {
+    const maximum = new WindowMaximum(1);
+    maximum.add(0, 5);
+    maximum.add(0.5, 3);
+    expect(maximum.max()).toBe(5);
+    maximum.add(1.2, 1);
+    expect(maximum.max()).toBe(3);
+    maximum.add(2, 2);
+    expect(maximum.max()).toBe(2);
+  });
+
+  it("follows a shorter window from the next sample on", () => {
+    const maximum = new WindowMaximum(10);
+    maximum.add(0, 5);
+    maximum.add(1, 1);
+    maximum.window = 0.5;
+    maximum.add(1.2, 0);
+    expect(maximum.max()).toBe(1);
+  });
+});
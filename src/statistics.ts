@@ -0,0 +1,115 @@
+import { Wrench } from "./types";
+import { WRENCH_CHANNELS, WrenchChannel } from "./wrenchMath";
+
+// Summary of one channel over a set of samples
+export type ChannelStatistics = {
+  min: number;
+  max: number;
+  mean: number;
+  std: number;
+  rms: number;
+  peakToPeak: number;
+  peak: number; // value with the largest magnitude
+  peakTime: number; // seconds
+};
+
+type ChannelAccumulator = {
+  min: number;
+  max: number;
+  mean: number;
+  m2: number; // sum of squared deviations from the mean
+  sumOfSquares: number;
+  peak: number;
+  peakTime: number;
+};
+
+/**
+ * Streaming statistics of every wrench channel. Mean and variance use Welford's update so long
+ * recordings do not lose precision.
+ */
+export class WrenchStatistics {
+  #count = 0;
+  #channels = new Map<WrenchChannel, ChannelAccumulator>();
+
+  add(time: number, wrench: Wrench): void {
+    this.#count++;
+    WRENCH_CHANNELS.forEach(({ key, value }) => {
+      const x = value(wrench);
+      const channel = this.#channels.get(key);
+      if (!channel) {
+        this.#channels.set(key, {
+          min: x,
+          max: x,
+          mean: x,
+          m2: 0,
+          sumOfSquares: x * x,
+          peak: x,
+          peakTime: time,
+        });
+        return;
+      }
+      channel.min = Math.min(channel.min, x);
+      channel.max = Math.max(channel.max, x);
+      const delta = x - channel.mean;
+      channel.mean += delta / this.#count;
+      channel.m2 += delta * (x - channel.mean);
+      channel.sumOfSquares += x * x;
+      if (Math.abs(x) > Math.abs(channel.peak)) {
+        channel.peak = x;
+        channel.peakTime = time;
+      }
+    });
+  }
+
+  // Statistics of every channel, undefined before the first sample
+  result(): Record<WrenchChannel, ChannelStatistics> | undefined {
+    if (this.#count === 0) {
+      return undefined;
+    }
+    const result = {} as Record<WrenchChannel, ChannelStatistics>;
+    this.#channels.forEach((channel, key) => {
+      result[key] = {
+        min: channel.min,
+        max: channel.max,
+        mean: channel.mean,
+        std: Math.sqrt(channel.m2 / this.#count),
+        rms: Math.sqrt(channel.sumOfSquares / this.#count),
+        peakToPeak: channel.max - channel.min,
+        peak: channel.peak,
+        peakTime: channel.peakTime,
+      };
+    });
+    return result;
+  }
+}
+
+/**
+ * Largest value of the samples of the last `window` seconds, counted back from the newest sample.
+ * Samples that can never be the maximum again are dropped on arrival, so the queue stays short and
+ * each update is amortized O(1).
+ */
+export class WindowMaximum {
+  window: number; // seconds
+  #samples: { time: number; value: number }[] = []; // values strictly decreasing
+
+  constructor(window: number) {
+    this.window = window;
+  }
+
+  add(time: number, value: number): void {
+    while (
+      (this.#samples[this.#samples.length - 1]?.value ?? Infinity) <= value
+    ) {
+      this.#samples.pop();
+    }
+    this.#samples.push({ time, value });
+    while (this.#samples[0]!.time < time - this.window) {
+      this.#samples.shift();
+    }
+  }
+
+  // Zero before the first sample
+  max(): number {
+    return this.#samples[0]?.value ?? 0;
+  }
+}
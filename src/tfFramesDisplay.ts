@@ -0,0 +1,181 @@
+import * as THREE from "three";
+
+import { Transform } from "./types";
+
+// Pose of one TF frame in the fixed frame, undefined when it cannot be looked up
+export type FramePose = {
+  frameId: string;
+  parentFrameId?: string;
+  transform?: Transform;
+};
+
+export type TFFramesDisplayOptions = {
+  scale: number; // meters, length of each axis
+  showLabels: boolean;
+  showLinks: boolean;
+};
+
+const LINK_COLOR = 0xcccccc;
+const INITIAL_LINK_CAPACITY = 64; // line segments
+const LABEL_HEIGHT = 0.25; // label height relative to the axis length
+
+type FrameVisual = {
+  group: THREE.Group;
+  label: THREE.Sprite;
+};
+
+// Sprite showing `text`, as wide as the text and LABEL_HEIGHT units tall
+function createLabel(text: string): THREE.Sprite {
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d")!;
+  const fontSize = 48;
+  const font = `${fontSize}px sans-serif`;
+  ctx.font = font;
+  canvas.width = Math.ceil(ctx.measureText(text).width) + 16;
+  canvas.height = fontSize + 16;
+  // Resizing the canvas resets the context
+  ctx.font = font;
+  ctx.fillStyle = "rgba(0, 0, 0, 0.6)";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = "#ffffff";
+  ctx.textBaseline = "middle";
+  ctx.fillText(text, 8, canvas.height / 2);
+
+  const material = new THREE.SpriteMaterial({
+    map: new THREE.CanvasTexture(canvas),
+    depthTest: false,
+  });
+  const sprite = new THREE.Sprite(material);
+  sprite.scale.set(
+    (LABEL_HEIGHT * canvas.width) / canvas.height,
+    LABEL_HEIGHT,
+    1,
+  );
+  // Anchor the label at its bottom left corner
+  sprite.center.set(0, 0);
+  return sprite;
+}
+
+// Line segments with room for `capacity` links, drawn up to the draw range
+function createLinkGeometry(capacity: number): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry();
+  const attribute = new THREE.BufferAttribute(
+    new Float32Array(capacity * 2 * 3),
+    3,
+  );
+  attribute.setUsage(THREE.DynamicDrawUsage);
+  geometry.setAttribute("position", attribute);
+  geometry.setDrawRange(0, 0);
+  return geometry;
+}
+
+/**
+ * Axes and name of every TF frame, posed in the fixed frame, with a line from each frame to its
+ * parent. Frames are created as they appear and removed when they are no longer listed.
+ */
+export class TFFramesDisplay {
+  readonly group = new THREE.Group();
+  #frames = new Map<string, FrameVisual>();
+  #links: THREE.LineSegments;
+
+  constructor() {
+    this.#links = new THREE.LineSegments(
+      createLinkGeometry(INITIAL_LINK_CAPACITY),
+      new THREE.LineBasicMaterial({ color: LINK_COLOR }),
+    );
+    this.group.add(this.#links);
+  }
+
+  update(frames: readonly FramePose[], options: TFFramesDisplayOptions): void {
+    const listed = new Set(frames.map((frame) => frame.frameId));
+    this.#frames.forEach((visual, frameId) => {
+      if (!listed.has(frameId)) {
+        this.#removeFrame(frameId, visual);
+      }
+    });
+
+    const positions = new Map<string, THREE.Vector3>();
+    frames.forEach(({ frameId, transform }) => {
+      let visual = this.#frames.get(frameId);
+      if (!visual) {
+        visual = this.#createFrame(frameId);
+      }
+      visual.group.visible = transform != undefined;
+      visual.label.visible = options.showLabels;
+      visual.group.scale.setScalar(options.scale);
+      if (transform) {
+        const { translation, rotation } = transform;
+        visual.group.position.set(translation.x, translation.y, translation.z);
+        visual.group.quaternion.set(
+          rotation.x,
+          rotation.y,
+          rotation.z,
+          rotation.w,
+        );
+        positions.set(frameId, visual.group.position);
+      }
+    });
+
+    // Links are drawn between frames that both have a pose
+    const points: THREE.Vector3[] = [];
+    frames.forEach(({ frameId, parentFrameId }) => {
+      const child = positions.get(frameId);
+      const parent =
+        parentFrameId != undefined ? positions.get(parentFrameId) : undefined;
+      if (child && parent) {
+        points.push(parent, child);
+      }
+    });
+    this.#links.visible = options.showLinks;
+
+    // The geometry is only replaced when the links outgrow it, at twice the size or more
+    let geometry = this.#links.geometry;
+    let attribute = geometry.getAttribute("position") as THREE.BufferAttribute;
+    if (points.length > attribute.count) {
+      geometry.dispose();
+      geometry = createLinkGeometry(
+        Math.max(points.length, attribute.count * 2) / 2,
+      );
+      this.#links.geometry = geometry;
+      attribute = geometry.getAttribute("position") as THREE.BufferAttribute;
+    }
+    points.forEach((point, i) => {
+      attribute.setXYZ(i, point.x, point.y, point.z);
+    });
+    attribute.needsUpdate = true;
+    geometry.setDrawRange(0, points.length);
+    geometry.computeBoundingSphere();
+  }
+
+  dispose(): void {
+    this.#frames.forEach((visual, frameId) => {
+      this.#removeFrame(frameId, visual);
+    });
+    this.#links.geometry.dispose();
+    (this.#links.material as THREE.Material).dispose();
+    this.group.removeFromParent();
+  }
+
+  #createFrame(frameId: string): FrameVisual {
+    const group = new THREE.Group();
+    group.add(new THREE.AxesHelper(1));
+    const label = createLabel(frameId);
+    group.add(label);
+    this.group.add(group);
+    const visual = { group, label };
+    this.#frames.set(frameId, visual);
+    return visual;
+  }
+
+  #removeFrame(frameId: string, visual: FrameVisual): void {
+    visual.group.removeFromParent();
+    visual.group.traverse((child) => {
+      if (child instanceof THREE.AxesHelper) {
+        child.dispose();
+      }
+    });
+    visual.label.material.map?.dispose();
+    visual.label.material.dispose();
+    this.#frames.delete(frameId);
+  }
+}
@@ -0,0 +1,61 @@
+import {
+  formatStamp,
+  fromNanoseconds,
+  fromRosStamp,
+  isSameTime,
+  stampToNanoseconds,
+  toRosStamp,
+  toSeconds,
+} from "./time";
+
+describe("stamp conversions", () => {
+  it("converts stamps to nanoseconds and seconds", () => {
+    expect(stampToNanoseconds({ sec: 2, nsec: 500 })).toBe(2_000_000_500);
+    expect(toSeconds({ sec: 2, nsec: 500_000_000 })).toBe(2.5);
+  });
+
+  it("converts nanoseconds back to a stamp", () => {
+    expect(fromNanoseconds(2_000_000_500)).toEqual({ sec: 2, nsec: 500 });
+    expect(fromNanoseconds(-500_000_000)).toEqual({
+      sec: -1,
+      nsec: 500_000_000,
+    });
+  });
+
+  it("formats stamps with full nanosecond precision", () => {
+    expect(formatStamp({ sec: 12, nsec: 500 })).toBe("12.000000500");
+  });
+
+  it("compares optional stamps by value", () => {
+    expect(isSameTime({ sec: 1, nsec: 2 }, { sec: 1, nsec: 2 })).toBe(true);
+    expect(isSameTime({ sec: 1, nsec: 2 }, { sec: 1, nsec: 3 })).toBe(false);
+    expect(isSameTime(undefined, undefined)).toBe(true);
+    expect(isSameTime({ sec: 1, nsec: 2 }, undefined)).toBe(false);
+  });
+});
+
+describe("ROS stamps", () => {
+  const fallback = { sec: 9, nsec: 9 };
+
+  it("reads ROS 1 and ROS 2 nanosecond fields", () => {
+    expect(fromRosStamp({ sec: 1, nsec: 2 }, fallback)).toEqual({
+      sec: 1,
+      nsec: 2,
+    });
+    expect(fromRosStamp({ sec: 1, nanosec: 2 }, fallback)).toEqual({
+      sec: 1,
+      nsec: 2,
+    });
+    expect(fromRosStamp({ sec: 1 }, fallback)).toEqual({ sec: 1, nsec: 0 });
+  });
+
+  it("falls back without seconds", () => {
+    expect(fromRosStamp(undefined, fallback)).toBe(fallback);
+    expect(fromRosStamp({ nanosec: 2 }, fallback)).toBe(fallback);
+  });
+
+  it("writes the field names of the ROS version", () => {
+    expect(toRosStamp({ sec: 1, nsec: 2 }, 1)).toEqual({ sec: 1, nsec: 2 });
+    expect(toRosStamp({ sec: 1, nsec: 2 }, 2)).toEqual({ sec: 1, nanosec: 2 });
+  });
+});
@@ -0,0 +1,49 @@
+import { Time } from "@foxglove/extension";
+
+// Convert a message stamp to nanoseconds
+export function stampToNanoseconds(stamp: Time): number {
+  return stamp.sec * 1e9 + stamp.nsec;
+}
+
+// Convert a message stamp to seconds
+export function toSeconds(stamp: Time): number {
+  return stamp.sec + stamp.nsec * 1e-9;
+}
+
+// Format a stamp as seconds with full nanosecond precision, e.g. "12.000000500"
+export function formatStamp(stamp: Time): string {
+  return `${stamp.sec}.${String(stamp.nsec).padStart(9, "0")}`;
+}
+
+// Convert nanoseconds back to a message stamp
+export function fromNanoseconds(nanoseconds: number): Time {
+  const sec = Math.floor(nanoseconds / 1e9);
+  return { sec, nsec: Math.round(nanoseconds - sec * 1e9) };
+}
+
+// Stamp of a decoded message. ROS 2 names the nanosecond field of builtin_interfaces/Time
+// "nanosec", and JSON and protobuf encodings may omit zero values.
+export type RosStamp = { sec?: number; nsec?: number; nanosec?: number };
+
+// Read a decoded message stamp, or use `fallback` when it has no seconds
+export function fromRosStamp(
+  stamp: RosStamp | undefined,
+  fallback: Time,
+): Time {
+  if (stamp?.sec == undefined) {
+    return fallback;
+  }
+  return { sec: stamp.sec, nsec: stamp.nsec ?? stamp.nanosec ?? 0 };
+}
+
+// Write a stamp with the field names of the given ROS version
+export function toRosStamp(stamp: Time, version: 1 | 2): RosStamp {
+  return version === 1
+    ? { sec: stamp.sec, nsec: stamp.nsec }
+    : { sec: stamp.sec, nanosec: stamp.nsec };
+}
+
+// Compare two optional stamps by value
+export function isSameTime(a: Time | undefined, b: Time | undefined): boolean {
+  return a?.sec === b?.sec && a?.nsec === b?.nsec;
+}
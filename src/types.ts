@@ -0,0 +1,70 @@
+// Message definitions shared by the panel and its helpers
+
+// Header definition for stamped messages
+export interface Header {
+  frame_id: string;
+  stamp: { sec: number; nsec: number };
+}
+
+// Vector3 type definition
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Wrench message type definition
+export interface Wrench {
+  force: Vector3;
+  torque: Vector3;
+}
+
+// WrenchStamped message type definition
+export interface WrenchStampedMessage {
+  header: Header;
+  wrench: Wrench;
+}
+
+// TF message type definition
+export interface Transform {
+  translation: Vector3;
+  rotation: {
+    x: number;
+    y: number;
+    z: number;
+    w: number;
+  };
+}
+
+export interface TransformStamped {
+  header: Header;
+  child_frame_id: string;
+  transform: Transform;
+}
+
+export interface TFMessage {
+  transforms: TransformStamped[];
+}
+
+// std_msgs/String, used for the robot_description topic
+export interface StringMessage {
+  data: string;
+}
+
+// gazebo_msgs/ContactState, one collision pair reported by a bumper sensor
+export interface ContactState {
+  info: string;
+  collision1_name: string;
+  collision2_name: string;
+  wrenches: Wrench[];
+  total_wrench: Wrench;
+  contact_positions: Vector3[];
+  contact_normals: Vector3[];
+  depths: number[];
+}
+
+// gazebo_msgs/ContactsState message type definition
+export interface ContactsStateMessage {
+  header: Header;
+  states: ContactState[];
+}
@@ -0,0 +1,21 @@
+import { FORCE_UNITS, TORQUE_UNITS, convertVector } from "./units";
+
+describe("display units", () => {
+  it("converts forces from newtons", () => {
+    expect(9.80665 * FORCE_UNITS.kgf.fromSI).toBeCloseTo(1);
+    expect(4.4482216152605 * FORCE_UNITS.lbf.fromSI).toBeCloseTo(1);
+  });
+
+  it("converts torques from newton meters", () => {
+    expect(TORQUE_UNITS["N·mm"].fromSI).toBe(1000);
+    expect(0.112984829027617 * TORQUE_UNITS["lbf·in"].fromSI).toBeCloseTo(1);
+  });
+
+  it("scales every component of a vector", () => {
+    expect(convertVector({ x: 1, y: -2, z: 0.5 }, 1000)).toEqual({
+      x: 1000,
+      y: -2000,
+      z: 500,
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import { Vector3 } from "./types";
+
+export type ForceUnit = "N" | "lbf" | "kgf";
+export type TorqueUnit = "N·m" | "lbf·in" | "N·mm";
+
+// Multiply a value in SI units by `fromSI` to express it in the display unit
+export const FORCE_UNITS: Record<ForceUnit, { fromSI: number }> = {
+  N: { fromSI: 1 },
+  lbf: { fromSI: 1 / 4.4482216152605 },
+  kgf: { fromSI: 1 / 9.80665 },
+};
+
+export const TORQUE_UNITS: Record<TorqueUnit, { fromSI: number }> = {
+  "N·m": { fromSI: 1 },
+  "lbf·in": { fromSI: 1 / 0.112984829027617 },
+  "N·mm": { fromSI: 1000 },
+};
+
+export function convertVector(v: Vector3, fromSI: number): Vector3 {
+  return { x: v.x * fromSI, y: v.y * fromSI, z: v.z * fromSI };
+}
@@ -0,0 +1,93 @@
+/**
+ * @jest-environment jsdom
+ */
+import * as THREE from "three";
+
+import { parseUrdf } from "./urdf";
+import { toThreeQuaternion } from "./wrenchMath";
+
+const URDF = `<?xml version="1.0"?>
+<robot name="arm">
+  <material name="blue"><color rgba="0 0 1 1"/></material>
+  <link name="base">
+    <visual>
+      <geometry><box size="0.1 0.2 0.3"/></geometry>
+      <material name="blue"/>
+    </visual>
+    <collision><geometry><sphere radius="1"/></geometry></collision>
+  </link>
+  <link name="tool">
+    <visual>
+      <origin xyz="0 0 0.05" rpy="1.5707963267948966 0 1.5707963267948966"/>
+      <geometry><cylinder radius="0.02" length="0.1"/></geometry>
+      <material name="red"><color rgba="1 0 0 0.5"/></material>
+    </visual>
+    <visual>
+      <geometry><mesh filename="package://arm/meshes/tool.stl" scale="0.001 0.001 0.001"/></geometry>
+    </visual>
+  </link>
+  <joint name="wrist" type="revolute">
+    <parent link="base"/>
+    <child link="tool"/>
+    <origin xyz="0 0 0.4"/>
+  </joint>
+</robot>`;
+
+describe("parseUrdf", () => {
+  it("reads links, visuals and joints", () => {
+    const robot = parseUrdf(URDF);
+    expect(robot.name).toBe("arm");
+    expect(robot.links.map((link) => link.name)).toEqual(["base", "tool"]);
+    expect(robot.links[0]?.visuals).toEqual([
+      {
+        origin: {
+          translation: { x: 0, y: 0, z: 0 },
+          rotation: { x: 0, y: 0, z: 0, w: 1 },
+        },
+        geometry: { type: "box", size: [0.1, 0.2, 0.3] },
+        color: [0, 0, 1, 1],
+      },
+    ]);
+    expect(robot.links[1]?.visuals.map((visual) => visual.geometry)).toEqual([
+      { type: "cylinder", radius: 0.02, length: 0.1 },
+      {
+        type: "mesh",
+        filename: "package://arm/meshes/tool.stl",
+        scale: [0.001, 0.001, 0.001],
+      },
+    ]);
+    expect(robot.links[1]?.visuals[0]?.color).toEqual([1, 0, 0, 0.5]);
+    expect(robot.joints).toEqual([
+      {
+        name: "wrist",
+        type: "revolute",
+        parent: "base",
+        child: "tool",
+        origin: {
+          translation: { x: 0, y: 0, z: 0.4 },
+          rotation: { x: 0, y: 0, z: 0, w: 1 },
+        },
+      },
+    ]);
+  });
+
+  it("applies roll, pitch and yaw about the fixed axes", () => {
+    const origin = parseUrdf(URDF).links[1]!.visuals[0]!.origin;
+    const quaternion = toThreeQuaternion(origin.rotation);
+    // Roll turns Y onto Z, then yaw turns X onto Y
+    const x = new THREE.Vector3(1, 0, 0).applyQuaternion(quaternion);
+    const y = new THREE.Vector3(0, 1, 0).applyQuaternion(quaternion);
+    expect(x.distanceTo(new THREE.Vector3(0, 1, 0))).toBeCloseTo(0);
+    expect(y.distanceTo(new THREE.Vector3(0, 0, 1))).toBeCloseTo(0);
+    expect(origin.translation).toEqual({ x: 0, y: 0, z: 0.05 });
+  });
+
+  it("rejects documents that are not a URDF robot", () => {
+    expect(() => parseUrdf("<robot>")).toThrow(
+      "Robot description is not a valid URDF document",
+    );
+    expect(() => parseUrdf("<sdf/>")).toThrow(
+      "Robot description is not a valid URDF document",
+    );
+  });
+});
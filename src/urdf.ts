@@ -0,0 +1,173 @@
+import * as THREE from "three";
+
+import { Transform } from "./types";
+
+export type UrdfGeometry =
+  | { type: "box"; size: [number, number, number] }
+  | { type: "cylinder"; radius: number; length: number }
+  | { type: "sphere"; radius: number }
+  | { type: "mesh"; filename: string; scale: [number, number, number] };
+
+export type UrdfVisual = {
+  origin: Transform; // pose of the visual in its link frame
+  geometry: UrdfGeometry;
+  color?: [number, number, number, number]; // rgba in [0, 1]
+};
+
+export type UrdfLink = {
+  name: string;
+  visuals: UrdfVisual[];
+};
+
+export type UrdfJoint = {
+  name: string;
+  type: string;
+  parent: string;
+  child: string;
+  origin: Transform; // pose of the child link in the parent link frame
+};
+
+export type UrdfRobot = {
+  name: string;
+  links: UrdfLink[];
+  joints: UrdfJoint[];
+};
+
+function parseNumbers(text: string | null, count: number): number[] {
+  const values = (text ?? "").trim().split(/\s+/).map(Number);
+  if (values.length !== count || values.some((v) => !Number.isFinite(v))) {
+    return new Array<number>(count).fill(0);
+  }
+  return values;
+}
+
+function parseVector3(text: string | null): [number, number, number] {
+  const [x, y, z] = parseNumbers(text, 3);
+  return [x!, y!, z!];
+}
+
+// <origin xyz="..." rpy="..."/>, fixed-axis roll, pitch, yaw as in URDF
+function parseOrigin(element: Element | null): Transform {
+  const [x, y, z] = parseVector3(element?.getAttribute("xyz") ?? "0 0 0");
+  const [roll, pitch, yaw] = parseVector3(
+    element?.getAttribute("rpy") ?? "0 0 0",
+  );
+  const quaternion = new THREE.Quaternion().setFromEuler(
+    new THREE.Euler(roll, pitch, yaw, "ZYX"),
+  );
+  return {
+    translation: { x, y, z },
+    rotation: {
+      x: quaternion.x,
+      y: quaternion.y,
+      z: quaternion.z,
+      w: quaternion.w,
+    },
+  };
+}
+
+function parseColor(
+  material: Element | null,
+  namedColors: Map<string, [number, number, number, number]>,
+): [number, number, number, number] | undefined {
+  if (!material) {
+    return undefined;
+  }
+  const rgba = material.querySelector(":scope > color")?.getAttribute("rgba");
+  if (rgba != undefined) {
+    const [r, g, b, a] = parseNumbers(rgba, 4);
+    return [r!, g!, b!, a!];
+  }
+  return namedColors.get(material.getAttribute("name") ?? "");
+}
+
+function parseGeometry(element: Element | null): UrdfGeometry | undefined {
+  const shape = element?.firstElementChild;
+  if (!shape) {
+    return undefined;
+  }
+  switch (shape.tagName) {
+    case "box":
+      return { type: "box", size: parseVector3(shape.getAttribute("size")) };
+    case "cylinder":
+      return {
+        type: "cylinder",
+        radius: Number(shape.getAttribute("radius") ?? 0),
+        length: Number(shape.getAttribute("length") ?? 0),
+      };
+    case "sphere":
+      return { type: "sphere", radius: Number(shape.getAttribute("radius")) };
+    case "mesh":
+      return {
+        type: "mesh",
+        filename: shape.getAttribute("filename") ?? "",
+        scale: parseVector3(shape.getAttribute("scale") ?? "1 1 1"),
+      };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Parse the links, visuals and joints of a URDF document. Collision and inertial elements are
+ * ignored. Throws when the document is not a URDF robot.
+ */
+export function parseUrdf(xml: string): UrdfRobot {
+  const document = new DOMParser().parseFromString(xml, "text/xml");
+  const robot = document.documentElement;
+  if (
+    document.getElementsByTagName("parsererror").length > 0 ||
+    robot.tagName !== "robot"
+  ) {
+    throw new Error("Robot description is not a valid URDF document");
+  }
+
+  // Materials declared at the robot level can be referenced by name from any visual
+  const namedColors = new Map<string, [number, number, number, number]>();
+  robot.querySelectorAll(":scope > material").forEach((material) => {
+    const color = parseColor(material, new Map());
+    const name = material.getAttribute("name");
+    if (name != undefined && color) {
+      namedColors.set(name, color);
+    }
+  });
+
+  const links = Array.from(robot.querySelectorAll(":scope > link")).map(
+    (link): UrdfLink => ({
+      name: link.getAttribute("name") ?? "",
+      visuals: Array.from(link.querySelectorAll(":scope > visual")).flatMap(
+        (visual): UrdfVisual[] => {
+          const geometry = parseGeometry(
+            visual.querySelector(":scope > geometry"),
+          );
+          if (!geometry) {
+            return [];
+          }
+          return [
+            {
+              origin: parseOrigin(visual.querySelector(":scope > origin")),
+              geometry,
+              color: parseColor(
+                visual.querySelector(":scope > material"),
+                namedColors,
+              ),
+            },
+          ];
+        },
+      ),
+    }),
+  );
+
+  const joints = Array.from(robot.querySelectorAll(":scope > joint")).map(
+    (joint): UrdfJoint => ({
+      name: joint.getAttribute("name") ?? "",
+      type: joint.getAttribute("type") ?? "fixed",
+      parent:
+        joint.querySelector(":scope > parent")?.getAttribute("link") ?? "",
+      child: joint.querySelector(":scope > child")?.getAttribute("link") ?? "",
+      origin: parseOrigin(joint.querySelector(":scope > origin")),
+    }),
+  );
+
+  return { name: robot.getAttribute("name") ?? "", links, joints };
+}
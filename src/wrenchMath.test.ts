@@ -0,0 +1,100 @@
+import { Transform, Wrench } from "./types";
+import {
+  averageWrench,
+  matrixToTransform,
+  payloadGravityWrench,
+  subtractWrench,
+  transformToMatrix,
+  transformWrench,
+} from "./wrenchMath";
+
+const QUARTER_TURN_Z: Transform["rotation"] = {
+  x: 0,
+  y: 0,
+  z: Math.SQRT1_2,
+  w: Math.SQRT1_2,
+};
+
+function wrench(
+  force: [number, number, number],
+  torque: [number, number, number],
+): Wrench {
+  return {
+    force: { x: force[0], y: force[1], z: force[2] },
+    torque: { x: torque[0], y: torque[1], z: torque[2] },
+  };
+}
+
+// Round to micro units so float noise and negative zeros compare equal
+function rounded(value: Wrench): Wrench {
+  const round = (v: number) => Math.round(v * 1e6) / 1e6 + 0;
+  const roundVector = ({ x, y, z }: Wrench["force"]) => ({
+    x: round(x),
+    y: round(y),
+    z: round(z),
+  });
+  return { force: roundVector(value.force), torque: roundVector(value.torque) };
+}
+
+describe("transformWrench", () => {
+  it("rotates force and torque into the target frame", () => {
+    const result = transformWrench(wrench([1, 0, 0], [0, 2, 0]), {
+      translation: { x: 0, y: 0, z: 0 },
+      rotation: QUARTER_TURN_Z,
+    });
+    expect(rounded(result)).toEqual(wrench([0, 1, 0], [-2, 0, 0]));
+  });
+
+  it("adds the moment of the force about the new origin", () => {
+    const result = transformWrench(wrench([0, 0, -10], [0, 0, 0]), {
+      translation: { x: 0.5, y: 0, z: 0 },
+      rotation: { x: 0, y: 0, z: 0, w: 1 },
+    });
+    // p × F = (0.5, 0, 0) × (0, 0, -10)
+    expect(rounded(result)).toEqual(wrench([0, 0, -10], [0, 5, 0]));
+  });
+});
+
+describe("payloadGravityWrench", () => {
+  it("expresses the payload weight in the sensor frame", () => {
+    const result = payloadGravityWrench(
+      2,
+      { x: 0.1, y: 0, z: 0 },
+      { x: 0, y: 0, z: -9.81 },
+      {
+        translation: { x: 0, y: 0, z: 1 },
+        rotation: { x: 1, y: 0, z: 0, w: 0 },
+      },
+    );
+    // Upside down sensor: gravity points along +z of the sensor, τ = c × F
+    expect(rounded(result)).toEqual(wrench([0, 0, 19.62], [0, -1.962, 0]));
+  });
+});
+
+describe("subtractWrench and averageWrench", () => {
+  it("combine wrenches component-wise", () => {
+    const a = wrench([1, 2, 3], [4, 5, 6]);
+    const b = wrench([3, 2, 1], [0, 1, 2]);
+    expect(rounded(subtractWrench(a, b))).toEqual(
+      wrench([-2, 0, 2], [4, 4, 4]),
+    );
+    expect(rounded(averageWrench([a, b]))).toEqual(
+      wrench([2, 2, 2], [2, 3, 4]),
+    );
+  });
+});
+
+describe("transformToMatrix", () => {
+  it("round-trips through matrixToTransform", () => {
+    const transform: Transform = {
+      translation: { x: 1, y: -2, z: 3 },
+      rotation: QUARTER_TURN_Z,
+    };
+    const result = matrixToTransform(transformToMatrix(transform));
+    expect(result.translation.x).toBeCloseTo(1);
+    expect(result.translation.y).toBeCloseTo(-2);
+    expect(result.translation.z).toBeCloseTo(3);
+    expect(result.rotation.z).toBeCloseTo(Math.SQRT1_2);
+    expect(result.rotation.w).toBeCloseTo(Math.SQRT1_2);
+  });
+});
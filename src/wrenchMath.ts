@@ -0,0 +1,164 @@
+import * as THREE from "three";
+
+import { Transform, Vector3, Wrench } from "./types";
+
+export type WrenchChannel =
+  | "fx"
+  | "fy"
+  | "fz"
+  | "tx"
+  | "ty"
+  | "tz"
+  | "forceNorm"
+  | "torqueNorm";
+
+// Scalar channels of a wrench: the six components and both magnitudes
+export const WRENCH_CHANNELS: readonly {
+  key: WrenchChannel;
+  label: string;
+  isForce: boolean;
+  value: (wrench: Wrench) => number;
+}[] = [
+  { key: "fx", label: "Fx", isForce: true, value: (w) => w.force.x },
+  { key: "fy", label: "Fy", isForce: true, value: (w) => w.force.y },
+  { key: "fz", label: "Fz", isForce: true, value: (w) => w.force.z },
+  { key: "tx", label: "Tx", isForce: false, value: (w) => w.torque.x },
+  { key: "ty", label: "Ty", isForce: false, value: (w) => w.torque.y },
+  { key: "tz", label: "Tz", isForce: false, value: (w) => w.torque.z },
+  {
+    key: "forceNorm",
+    label: "|F|",
+    isForce: true,
+    value: (w) => Math.hypot(w.force.x, w.force.y, w.force.z),
+  },
+  {
+    key: "torqueNorm",
+    label: "|T|",
+    isForce: false,
+    value: (w) => Math.hypot(w.torque.x, w.torque.y, w.torque.z),
+  },
+];
+
+// Conversions between message types and three.js math types
+export function toThreeVector(v: Vector3): THREE.Vector3 {
+  return new THREE.Vector3(v.x, v.y, v.z);
+}
+
+export function fromThreeVector(v: THREE.Vector3): Vector3 {
+  return { x: v.x, y: v.y, z: v.z };
+}
+
+export function toThreeQuaternion(
+  rotation: Transform["rotation"],
+): THREE.Quaternion {
+  return new THREE.Quaternion(rotation.x, rotation.y, rotation.z, rotation.w);
+}
+
+export function transformToMatrix(transform: Transform): THREE.Matrix4 {
+  return new THREE.Matrix4().compose(
+    toThreeVector(transform.translation),
+    toThreeQuaternion(transform.rotation),
+    new THREE.Vector3(1, 1, 1),
+  );
+}
+
+export function matrixToTransform(matrix: THREE.Matrix4): Transform {
+  const position = new THREE.Vector3();
+  const quaternion = new THREE.Quaternion();
+  matrix.decompose(position, quaternion, new THREE.Vector3());
+  return {
+    translation: fromThreeVector(position),
+    rotation: {
+      x: quaternion.x,
+      y: quaternion.y,
+      z: quaternion.z,
+      w: quaternion.w,
+    },
+  };
+}
+
+/**
+ * Express a wrench measured in frame S in frame T, given the pose of S in T. The force is rotated
+ * into T and the torque picks up the moment arm of the force about the origin of T:
+ * F_t = R F_s, τ_t = R τ_s + p × (R F_s).
+ */
+export function transformWrench(wrench: Wrench, transform: Transform): Wrench {
+  const quaternion = toThreeQuaternion(transform.rotation);
+  const force = toThreeVector(wrench.force).applyQuaternion(quaternion);
+  const torque = toThreeVector(wrench.torque)
+    .applyQuaternion(quaternion)
+    .add(
+      new THREE.Vector3().crossVectors(
+        toThreeVector(transform.translation),
+        force,
+      ),
+    );
+  return { force: fromThreeVector(force), torque: fromThreeVector(torque) };
+}
+
+// Component-wise difference a - b, used to remove a sensor bias
+export function subtractWrench(a: Wrench, b: Wrench): Wrench {
+  return {
+    force: {
+      x: a.force.x - b.force.x,
+      y: a.force.y - b.force.y,
+      z: a.force.z - b.force.z,
+    },
+    torque: {
+      x: a.torque.x - b.torque.x,
+      y: a.torque.y - b.torque.y,
+      z: a.torque.z - b.torque.z,
+    },
+  };
+}
+
+// Component-wise mean of a non-empty list of wrenches
+export function averageWrench(wrenches: readonly Wrench[]): Wrench {
+  const sum: Wrench = {
+    force: { x: 0, y: 0, z: 0 },
+    torque: { x: 0, y: 0, z: 0 },
+  };
+  wrenches.forEach(({ force, torque }) => {
+    sum.force.x += force.x;
+    sum.force.y += force.y;
+    sum.force.z += force.z;
+    sum.torque.x += torque.x;
+    sum.torque.y += torque.y;
+    sum.torque.z += torque.z;
+  });
+  const count = Math.max(wrenches.length, 1);
+  return {
+    force: {
+      x: sum.force.x / count,
+      y: sum.force.y / count,
+      z: sum.force.z / count,
+    },
+    torque: {
+      x: sum.torque.x / count,
+      y: sum.torque.y / count,
+      z: sum.torque.z / count,
+    },
+  };
+}
+
+/**
+ * Wrench a static payload exerts on the sensor, in the sensor frame. `gravity` is the gravity
+ * vector in the fixed frame and `sensorPose` the pose of the sensor frame in the fixed frame.
+ * F = m R^T g, τ = c × F with c the payload center of mass in the sensor frame.
+ */
+export function payloadGravityWrench(
+  mass: number,
+  centerOfMass: Vector3,
+  gravity: Vector3,
+  sensorPose: Transform,
+): Wrench {
+  const sensorToFixed = toThreeQuaternion(sensorPose.rotation);
+  const force = toThreeVector(gravity)
+    .applyQuaternion(sensorToFixed.invert())
+    .multiplyScalar(mass);
+  const torque = new THREE.Vector3().crossVectors(
+    toThreeVector(centerOfMass),
+    force,
+  );
+  return { force: fromThreeVector(force), torque: fromThreeVector(torque) };
+}
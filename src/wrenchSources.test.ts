@@ -0,0 +1,138 @@
+import { MessageEvent } from "@foxglove/extension";
+
+import { Vector3 } from "./types";
+import {
+  toSourceWrenchMessage,
+  transformContactPoints,
+  wrenchSourceKind,
+} from "./wrenchSources";
+
+function event(message: unknown): MessageEvent {
+  return {
+    topic: "/source",
+    schemaName: "",
+    receiveTime: { sec: 7, nsec: 0 },
+    message,
+    sizeInBytes: 0,
+  };
+}
+
+function rounded({ x, y, z }: Vector3): Vector3 {
+  const round = (value: number) => Math.round(value * 1e6) / 1e6 + 0;
+  return { x: round(x), y: round(y), z: round(z) };
+}
+
+describe("wrenchSourceKind", () => {
+  it("matches the last component of ROS and foxglove schema names", () => {
+    expect(wrenchSourceKind("geometry_msgs/msg/WrenchStamped")).toBe("stamped");
+    expect(wrenchSourceKind("geometry_msgs/Wrench")).toBe("wrench");
+    expect(wrenchSourceKind("foxglove.WrenchStamped")).toBe("stamped");
+    expect(wrenchSourceKind("gazebo_msgs/ContactsState")).toBe("contacts");
+    expect(wrenchSourceKind("geometry_msgs/msg/Twist")).toBeUndefined();
+  });
+});
+
+describe("toSourceWrenchMessage", () => {
+  it("reads a ROS 2 WrenchStamped", () => {
+    const message = toSourceWrenchMessage(
+      event({
+        header: { frame_id: "sensor", stamp: { sec: 3, nanosec: 40 } },
+        wrench: { force: { x: 1, y: 2, z: 3 }, torque: { x: 4, y: 5, z: 6 } },
+      }),
+      "default",
+    );
+    expect(message).toEqual({
+      header: { frame_id: "sensor", stamp: { sec: 3, nsec: 40 } },
+      wrench: { force: { x: 1, y: 2, z: 3 }, torque: { x: 4, y: 5, z: 6 } },
+    });
+  });
+
+  it("places a bare Wrench in the default frame at its receive time", () => {
+    const message = toSourceWrenchMessage(
+      event({ force: { x: 1 }, torque: { z: 2 } }),
+      "default",
+    );
+    expect(message).toEqual({
+      header: { frame_id: "default", stamp: { sec: 7, nsec: 0 } },
+      wrench: { force: { x: 1, y: 0, z: 0 }, torque: { x: 0, y: 0, z: 2 } },
+    });
+  });
+
+  it("reads the frame and timestamp fields of foxglove messages", () => {
+    const message = toSourceWrenchMessage(
+      event({
+        frame_id: "tool",
+        timestamp: { sec: 1, nsec: 2 },
+        wrench: { force: { z: 5 } },
+      }),
+      "default",
+    );
+    expect(message?.header).toEqual({
+      frame_id: "tool",
+      stamp: { sec: 1, nsec: 2 },
+    });
+    expect(message?.wrench.force).toEqual({ x: 0, y: 0, z: 5 });
+  });
+
+  it("sums the contact states and keeps every contact", () => {
+    const message = toSourceWrenchMessage(
+      event({
+        header: { frame_id: "bumper", stamp: { sec: 1, nsec: 0 } },
+        states: [
+          {
+            total_wrench: { force: { x: 1 }, torque: { y: 1 } },
+            contact_positions: [{ x: 0.1 }, { x: 0.2 }],
+            contact_normals: [{ z: 1 }, { z: 1 }],
+            wrenches: [{ force: { x: 0.5 } }, { force: { x: 0.5 } }],
+          },
+          { total_wrench: { force: { x: 2 } } },
+        ],
+      }),
+      "default",
+    );
+    expect(message?.wrench).toEqual({
+      force: { x: 3, y: 0, z: 0 },
+      torque: { x: 0, y: 1, z: 0 },
+    });
+    expect(message?.contacts).toEqual([
+      {
+        position: { x: 0.1, y: 0, z: 0 },
+        normal: { x: 0, y: 0, z: 1 },
+        force: { x: 0.5, y: 0, z: 0 },
+      },
+      {
+        position: { x: 0.2, y: 0, z: 0 },
+        normal: { x: 0, y: 0, z: 1 },
+        force: { x: 0.5, y: 0, z: 0 },
+      },
+    ]);
+  });
+
+  it("has no wrench for other messages", () => {
+    expect(
+      toSourceWrenchMessage(event({ data: 1 }), "default"),
+    ).toBeUndefined();
+    expect(toSourceWrenchMessage(event(undefined), "default")).toBeUndefined();
+  });
+});
+
+describe("transformContactPoints", () => {
+  it("moves positions and rotates normals and forces", () => {
+    const [contact] = transformContactPoints(
+      [
+        {
+          position: { x: 1, y: 0, z: 0 },
+          normal: { x: 1, y: 0, z: 0 },
+          force: { x: 0, y: 2, z: 0 },
+        },
+      ],
+      {
+        translation: { x: 0, y: 0, z: 1 },
+        rotation: { x: 0, y: 0, z: Math.SQRT1_2, w: Math.SQRT1_2 },
+      },
+    );
+    expect(rounded(contact!.position)).toEqual({ x: 0, y: 1, z: 1 });
+    expect(rounded(contact!.normal)).toEqual({ x: 0, y: 1, z: 0 });
+    expect(rounded(contact!.force)).toEqual({ x: -2, y: 0, z: 0 });
+  });
+});
@@ -0,0 +1,163 @@
+import { Immutable, MessageEvent } from "@foxglove/extension";
+import * as THREE from "three";
+
+import { RosStamp, fromRosStamp } from "./time";
+import {
+  ContactState,
+  Transform,
+  Vector3,
+  Wrench,
+  WrenchStampedMessage,
+} from "./types";
+import {
+  fromThreeVector,
+  toThreeQuaternion,
+  toThreeVector,
+} from "./wrenchMath";
+
+// How a wrench source schema is turned into a WrenchStamped message
+export type WrenchSourceKind = "stamped" | "wrench" | "contacts";
+
+// One contact reported by a contact sensor, in the header frame
+export type ContactPoint = {
+  position: Vector3;
+  normal: Vector3; // unit normal of the contact surface
+  force: Vector3; // N
+};
+
+// WrenchStamped view of any supported source message; contact sensors add their contacts
+export type SourceWrenchMessage = WrenchStampedMessage & {
+  contacts?: ContactPoint[];
+};
+
+// Fields read from a decoded message; JSON and protobuf encodings may omit zero values
+type LooseMessage = {
+  header?: { frame_id?: string; stamp?: RosStamp };
+  frame_id?: string;
+  timestamp?: RosStamp;
+  wrench?: Partial<Wrench>;
+  force?: Partial<Vector3>;
+  torque?: Partial<Vector3>;
+  states?: Partial<ContactState>[];
+};
+
+/**
+ * Kind of a topic schema, matched on its last name component so ROS 1 and ROS 2 names as well as
+ * JSON or protobuf schemas named after them (e.g. "foxglove.WrenchStamped") are recognized.
+ */
+export function wrenchSourceKind(
+  schemaName: string,
+): WrenchSourceKind | undefined {
+  const name = schemaName.split(/[/.]/).pop() ?? "";
+  switch (name) {
+    case "WrenchStamped":
+      return "stamped";
+    case "Wrench":
+      return "wrench";
+    case "ContactsState":
+      return "contacts";
+    default:
+      return undefined;
+  }
+}
+
+function toVector(v: Partial<Vector3> | undefined): Vector3 {
+  return { x: v?.x ?? 0, y: v?.y ?? 0, z: v?.z ?? 0 };
+}
+
+function toWrench(wrench: Partial<Wrench> | undefined): Wrench {
+  return { force: toVector(wrench?.force), torque: toVector(wrench?.torque) };
+}
+
+// Net wrench and individual contacts of every collision pair
+function readContacts(states: readonly Partial<ContactState>[]): {
+  wrench: Wrench;
+  contacts: ContactPoint[];
+} {
+  const force = new THREE.Vector3();
+  const torque = new THREE.Vector3();
+  const contacts: ContactPoint[] = [];
+  states.forEach((state) => {
+    const total = toWrench(state.total_wrench);
+    force.add(toThreeVector(total.force));
+    torque.add(toThreeVector(total.torque));
+    (state.contact_positions ?? []).forEach((position, i) => {
+      contacts.push({
+        position: toVector(position),
+        normal: toVector(state.contact_normals?.[i]),
+        force: toVector(state.wrenches?.[i]?.force),
+      });
+    });
+  });
+  return {
+    wrench: {
+      force: fromThreeVector(force),
+      torque: fromThreeVector(torque),
+    },
+    contacts,
+  };
+}
+
+/**
+ * Read a message of any supported source schema as a WrenchStamped message. The shape is detected
+ * from the fields present. Messages without a frame are placed in `defaultFrame` and messages
+ * without a stamp use their receive time. Returns undefined when no wrench can be read.
+ */
+export function toSourceWrenchMessage(
+  event: Immutable<MessageEvent>,
+  defaultFrame: string,
+): SourceWrenchMessage | undefined {
+  const message = event.message as Immutable<LooseMessage> | undefined;
+  if (message == undefined || typeof message !== "object") {
+    return undefined;
+  }
+
+  const frameId = message.header?.frame_id ?? message.frame_id ?? "";
+  const header = {
+    frame_id: frameId !== "" ? frameId : defaultFrame,
+    stamp: fromRosStamp(
+      message.header?.stamp ?? message.timestamp,
+      event.receiveTime,
+    ),
+  };
+
+  if (Array.isArray(message.states)) {
+    const { wrench, contacts } = readContacts(
+      message.states as Partial<ContactState>[],
+    );
+    return { header, wrench, contacts };
+  }
+  if (message.wrench) {
+    return { header, wrench: toWrench(message.wrench) };
+  }
+  if (message.force || message.torque) {
+    return {
+      header,
+      wrench: {
+        force: toVector(message.force),
+        torque: toVector(message.torque),
+      },
+    };
+  }
+  return undefined;
+}
+
+// Move the contacts of a sensor into another frame; `transform` is the sensor frame in that frame
+export function transformContactPoints(
+  contacts: readonly ContactPoint[],
+  transform: Transform,
+): ContactPoint[] {
+  const quaternion = toThreeQuaternion(transform.rotation);
+  const offset = toThreeVector(transform.translation);
+  const rotate = (v: Vector3) =>
+    fromThreeVector(toThreeVector(v).applyQuaternion(quaternion));
+  return contacts.map((contact) => {
+    return {
+      position: fromThreeVector(
+        toThreeVector(contact.position).applyQuaternion(quaternion).add(offset),
+      ),
+      normal: rotate(contact.normal),
+      force: rotate(contact.force),
+    };
+  });
+}